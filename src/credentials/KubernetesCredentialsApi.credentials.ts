@@ -23,6 +23,10 @@ export class KubernetesCredentialsApi implements ICredentialType {
 					name: "Content",
 					value: "content",
 				},
+				{
+					name: "Token",
+					value: "token",
+				},
 			],
 			default: "automatic",
 		},
@@ -51,5 +55,80 @@ export class KubernetesCredentialsApi implements ICredentialType {
 				},
 			},
 		},
+		{
+			displayName: "Context",
+			name: "context",
+			type: "string",
+			default: "",
+			description: "Kubeconfig context to use. Leave empty to use the current-context of the kubeconfig.",
+			displayOptions: {
+				show: {
+					loadFrom: ["file", "content"],
+				},
+			},
+		},
+		{
+			displayName: "Server",
+			name: "server",
+			type: "string",
+			default: "",
+			placeholder: "https://kubernetes.example.com:6443",
+			description: "URL of the Kubernetes API server",
+			displayOptions: {
+				show: {
+					loadFrom: ["token"],
+				},
+			},
+		},
+		{
+			displayName: "Token",
+			name: "token",
+			type: "string",
+			typeOptions: {
+				password: true,
+			},
+			default: "",
+			description: "Bearer token, e.g. of a service account",
+			displayOptions: {
+				show: {
+					loadFrom: ["token"],
+				},
+			},
+		},
+		{
+			displayName: "CA Data",
+			name: "caData",
+			type: "string",
+			typeOptions: {
+				rows: 4,
+			},
+			default: "",
+			description: "Certificate authority of the API server, as PEM or base64-encoded PEM. Leave empty to use the system trust store.",
+			displayOptions: {
+				show: {
+					loadFrom: ["token"],
+				},
+			},
+		},
+		{
+			displayName: "Skip TLS Verify",
+			name: "skipTLSVerify",
+			type: "boolean",
+			default: false,
+			description: "Whether to skip verification of the API server certificate",
+			displayOptions: {
+				show: {
+					loadFrom: ["token"],
+				},
+			},
+		},
+		{
+			displayName: "Default Namespace",
+			name: "namespace",
+			type: "string",
+			default: "",
+			placeholder: "default",
+			description: "Namespace used whenever the namespace field of the node is left empty. Defaults to \"default\".",
+		},
 	];
 }
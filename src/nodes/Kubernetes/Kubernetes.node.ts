@@ -1,4 +1,5 @@
 import {
+	IBinaryKeyData,
 	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
@@ -9,7 +10,20 @@ import {
 	NodeConnectionType,
 } from "n8n-workflow";
 
-import { K8SClient } from "./utils";
+import { CLUSTER_SCOPED_KINDS } from "./config";
+import { kubernetesConnectionTest } from "./credentialTest";
+import { ArchiveFile, ParameterHelper, ResourceHelper } from "./helpers";
+import {
+	getApiVersions,
+	getContainers,
+	getContexts,
+	getCronJobs,
+	getKinds,
+	getNamespaces,
+	getPods,
+	getResourceNames,
+} from "./loadOptions";
+import { K8SClient, UpdateOptions } from "./utils";
 
 export class Kubernetes implements INodeType {
 	description: INodeTypeDescription = {
@@ -30,6 +44,7 @@ export class Kubernetes implements INodeType {
 			{
 				name: "kubernetesCredentialsApi",
 				required: true,
+				testedBy: "kubernetesConnectionTest",
 			},
 		],
 		properties: [
@@ -39,11 +54,47 @@ export class Kubernetes implements INodeType {
 				type: "options",
 				noDataExpression: true,
 				options: [
+					{
+						name: "Apply Resource",
+						value: "apply",
+						description: "Create or update a Kubernetes resource using server-side apply",
+						action: 'Apply a kubernetes resource',
+					},
 					{
 						name: "Create Resource",
 						value: "create",
-						description: "Create a Kubernetes resource from JSON",
-						action: 'Create a kubernetes resource from JSON',
+						description: "Create Kubernetes resources from a YAML or JSON manifest",
+						action: 'Create kubernetes resources from a manifest',
+					},
+					{
+						name: "Delete Resource",
+						value: "delete",
+						description: "Delete any Kubernetes resource",
+						action: 'Delete any kubernetes resource',
+					},
+					{
+						name: "Describe Resource",
+						value: "describe",
+						description: "Get a resource with its conditions, events and pods, like kubectl describe",
+						action: 'Describe a kubernetes resource',
+					},
+					{
+						name: "Download File From Pod",
+						value: "download",
+						description: "Copy a file or directory out of a pod as binary data",
+						action: 'Download a file from a pod',
+					},
+					{
+						name: "Exec in Pod",
+						value: "exec",
+						description: "Run a command in a container of a running pod",
+						action: 'Run a command in a pod',
+					},
+					{
+						name: "Get Events",
+						value: "events",
+						description: "List Kubernetes events, optionally of one object",
+						action: 'Get kubernetes events',
 					},
 					{
 						name: "Get Logs",
@@ -69,6 +120,12 @@ export class Kubernetes implements INodeType {
 						description: "Patch any Kubernetes resource",
 						action: 'Patch any kubernetes resource',
 					},
+					{
+						name: "Rollout",
+						value: "rollout",
+						description: "Restart, check, list or undo the rollout of a Deployment, StatefulSet or DaemonSet",
+						action: 'Manage the rollout of a workload',
+					},
 					{
 						name: "Run Job",
 						value: "createJob",
@@ -81,12 +138,36 @@ export class Kubernetes implements INodeType {
 						description: "Run a pod and get its output",
 						action: 'Run a pod and get its output',
 					},
+					{
+						name: "Scale",
+						value: "scale",
+						description: "Scale a Deployment, StatefulSet, ReplicaSet or custom resource through its scale subresource",
+						action: 'Scale a resource',
+					},
+					{
+						name: "Set Image",
+						value: "setImage",
+						description: "Set the container image of a workload and optionally wait for the rollout",
+						action: 'Set the container image of a workload',
+					},
 					{
 						name: "Trigger CronJob",
 						value: "triggerCronJob",
 						description: "Manually trigger a CronJob to create a new Job",
 						action: 'Manually trigger a cron job to create a new job',
 					},
+					{
+						name: "Update Resource",
+						value: "update",
+						description: "Replace a resource, retrying when it was changed concurrently",
+						action: 'Update a resource',
+					},
+					{
+						name: "Upload File to Pod",
+						value: "upload",
+						description: "Copy binary data into a pod as files",
+						action: 'Upload a file to a pod',
+					},
 					{
 						name: "Wait Resource",
 						value: "wait",
@@ -96,6 +177,16 @@ export class Kubernetes implements INodeType {
 				],
 				default: "run",
 			},
+			{
+				displayName: "Context Name or ID",
+				name: "context",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getContexts",
+				},
+				default: "",
+				description: "Kubeconfig context to use instead of the one set on the credential. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
 			// Run Pod parameters
 			{
 				displayName: "Image",
@@ -122,16 +213,280 @@ export class Kubernetes implements INodeType {
 				description: "Command to run in the container (JSON array)",
 			},
 			{
-				displayName: "Namespace",
+				displayName: "Namespace Name or ID",
 				name: "namespace",
-				type: "string",
-				default: "default",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
 				displayOptions: {
 					show: {
 						operation: ["run"],
 					},
 				},
-				description: "Kubernetes namespace",
+				description: "Kubernetes namespace. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Additional Options",
+				name: "podOptions",
+				type: "collection",
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+					},
+				},
+				default: {},
+				placeholder: "Add Option",
+				options: [
+					{
+						displayName: "CPU Limit",
+						name: "cpuLimit",
+						type: "string",
+						default: "",
+						description: "Maximum CPU the container may use",
+						placeholder: "500m",
+					},
+					{
+						displayName: "CPU Request",
+						name: "cpuRequest",
+						type: "string",
+						default: "",
+						description: "CPU reserved for the container",
+						placeholder: "100m",
+					},
+					{
+						displayName: "Entrypoint",
+						name: "command",
+						type: "json",
+						default: "[]",
+						description: "Replaces the ENTRYPOINT of the image (JSON array). The Command field is passed to it as arguments.",
+						placeholder: "[\"/bin/sh\", \"-c\"]",
+					},
+					{
+						displayName: "Environment From",
+						name: "envFrom",
+						type: "fixedCollection",
+						default: { sources: [] },
+						description: "Load all keys of ConfigMaps or Secrets as environment variables",
+						typeOptions: {
+							multipleValues: true,
+						},
+						options: [
+							{
+								displayName: "Source",
+								name: "sources",
+								values: [
+									{
+										displayName: "Type",
+										name: "type",
+										type: "options",
+										options: [
+											{
+												name: "ConfigMap",
+												value: "configMap",
+											},
+											{
+												name: "Secret",
+												value: "secret",
+											},
+										],
+										default: "configMap",
+									},
+									{
+										displayName: "Name",
+										name: "name",
+										type: "string",
+										default: "",
+										description: "Name of the ConfigMap or Secret",
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: "Environment Variables",
+						name: "env",
+						type: "fixedCollection",
+						default: { variables: [] },
+						typeOptions: {
+							multipleValues: true,
+						},
+						options: [
+							{
+								displayName: "Variable",
+								name: "variables",
+								values: [
+									{
+										displayName: "ConfigMap or Secret Name",
+										name: "sourceName",
+										type: "string",
+										default: "",
+										displayOptions: {
+											show: {
+												source: ["configMap", "secret"],
+											},
+										},
+									},
+									{
+										displayName: "Key",
+										name: "key",
+										type: "string",
+										default: "",
+										displayOptions: {
+											show: {
+												source: ["configMap", "secret"],
+											},
+										},
+										description: "Key in the ConfigMap or Secret",
+									},
+									{
+										displayName: "Name",
+										name: "name",
+										type: "string",
+										default: "",
+										description: "Environment variable name",
+									},
+									{
+										displayName: "Source",
+										name: "source",
+										type: "options",
+										options: [
+											{
+												name: "ConfigMap Key",
+												value: "configMap",
+											},
+											{
+												name: "Secret Key",
+												value: "secret",
+											},
+											{
+												name: "Value",
+												value: "value",
+											},
+										],
+										default: "value",
+									},
+									{
+										displayName: "Value",
+										name: "value",
+										type: "string",
+										default: "",
+										displayOptions: {
+											show: {
+												source: ["value"],
+											},
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: "Image Pull Policy",
+						name: "imagePullPolicy",
+						type: "options",
+						options: [
+							{
+								name: "Always",
+								value: "Always",
+							},
+							{
+								name: "If Not Present",
+								value: "IfNotPresent",
+							},
+							{
+								name: "Never",
+								value: "Never",
+							},
+						],
+						default: "IfNotPresent",
+					},
+					{
+						displayName: "Image Pull Secrets",
+						name: "imagePullCredentials",
+						type: "string",
+						default: "",
+						description: "Comma-separated names of Secrets used to pull the image",
+						placeholder: "registry-credentials",
+					},
+					{
+						displayName: "Labels",
+						name: "labels",
+						type: "json",
+						default: "{}",
+						description: "Extra labels of the pod (JSON object)",
+						placeholder: "{\"team\": \"data\"}",
+					},
+					{
+						displayName: "Memory Limit",
+						name: "memoryLimit",
+						type: "string",
+						default: "",
+						description: "Maximum memory the container may use",
+						placeholder: "512Mi",
+					},
+					{
+						displayName: "Memory Request",
+						name: "memoryRequest",
+						type: "string",
+						default: "",
+						description: "Memory reserved for the container",
+						placeholder: "128Mi",
+					},
+					{
+						displayName: "Node Selector",
+						name: "nodeSelector",
+						type: "json",
+						default: "{}",
+						description: "Node labels the pod must be scheduled on (JSON object)",
+						placeholder: "{\"kubernetes.io/arch\": \"amd64\"}",
+					},
+					{
+						displayName: "Pod Security Context",
+						name: "podSecurityContext",
+						type: "json",
+						default: "{}",
+						description: "Security context of the pod, e.g. runAsUser or fsGroup (JSON object)",
+					},
+					{
+						displayName: "Security Context",
+						name: "securityContext",
+						type: "json",
+						default: "{}",
+						description: "Security context of the container, e.g. readOnlyRootFilesystem or capabilities (JSON object)",
+					},
+					{
+						displayName: "Service Account Name",
+						name: "serviceAccountName",
+						type: "string",
+						default: "",
+						description: "Service account the pod runs as",
+					},
+					{
+						displayName: "Tolerations",
+						name: "tolerations",
+						type: "json",
+						default: "[]",
+						description: "Tolerations of the pod (JSON array)",
+					},
+					{
+						displayName: "Volume Mounts",
+						name: "volumeMounts",
+						type: "json",
+						default: "[]",
+						description: "Where the volumes are mounted in the container (JSON array)",
+						placeholder: "[{\"name\": \"data\", \"mountPath\": \"/data\"}]",
+					},
+					{
+						displayName: "Volumes",
+						name: "volumes",
+						type: "json",
+						default: "[]",
+						description: "Volumes of the pod (JSON array)",
+						placeholder: "[{\"name\": \"data\", \"emptyDir\": {}}]",
+					},
+				],
 			},
 			// Create Job parameters
 			{
@@ -171,16 +526,19 @@ export class Kubernetes implements INodeType {
 				description: "Command to run in the job container (JSON array)",
 			},
 			{
-				displayName: "Namespace",
+				displayName: "Namespace Name or ID",
 				name: "jobNamespace",
-				type: "string",
-				default: "default",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
 				displayOptions: {
 					show: {
 						operation: ["createJob"],
 					},
 				},
-				description: "Kubernetes namespace for the job",
+				description: "Kubernetes namespace for the job. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
 				displayName: "Restart Policy",
@@ -216,267 +574,1394 @@ export class Kubernetes implements INodeType {
 				},
 				description: "Whether to delete the job after completion",
 			},
-			// Trigger CronJob parameters
-			{
-				displayName: "CronJob Name",
-				name: "cronJobName",
-				type: "string",
-				default: "",
-				displayOptions: {
-					show: {
-						operation: ["triggerCronJob"],
-					},
-				},
-				description: "Name of the CronJob to trigger",
-			},
-			{
-				displayName: "Namespace",
-				name: "cronJobNamespace",
-				type: "string",
-				default: "default",
-				displayOptions: {
-					show: {
-						operation: ["triggerCronJob"],
-					},
-				},
-				description: "Kubernetes namespace for the CronJob",
-			},
 			{
-				displayName: "Cleanup Job",
-				name: "cronJobCleanup",
+				displayName: "Include All Pods",
+				name: "includeAllPods",
 				type: "boolean",
-				default: true,
+				default: false,
 				displayOptions: {
 					show: {
-						operation: ["triggerCronJob"],
+						operation: ["createJob"],
 					},
 				},
-				description: "Whether to delete the job after completion",
+				description: "Whether to also return every pod of the job, including retries, with its logs, and the logs of all pods combined",
 			},
-			// CronJob Override Parameters
 			{
-				displayName: "Override Parameters",
-				name: "cronJobOverrides",
+				displayName: "Job Options",
+				name: "jobOptions",
 				type: "collection",
 				displayOptions: {
 					show: {
-						operation: ["triggerCronJob"],
+						operation: ["createJob"],
 					},
 				},
 				default: {},
-				placeholder: "Add Override Parameter",
-				description: "Override CronJob container parameters",
+				placeholder: "Add Option",
 				options: [
 					{
-						displayName: "Override Command",
-						name: "overrideCommand",
-						type: "json",
-						default: "[]",
-						description: 'Override container command (JSON array). Example: ["/bin/bash", "-c"].',
-						placeholder: "[\"/bin/bash\", \"-c\"]",
-					},
-					{
-						displayName: "Override Args",
-						name: "overrideArgs",
-						type: "json",
-						default: "[]",
-						description: 'Override container arguments (JSON array). Example: ["echo", "Hello from n8n!"].',
-						placeholder: "[\"echo\", \"Hello from n8n!\"]",
+						displayName: "Active Deadline Seconds",
+						name: "activeDeadlineSeconds",
+						type: "number",
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 3600,
+						description: "Time the job may run before it is failed and its pods are stopped",
 					},
 					{
-						displayName: "Override Environment Variables",
-						name: "overrideEnvs",
-						type: "fixedCollection",
-						default: { env: [] },
-						description: "Override or add environment variables",
+						displayName: "Backoff Limit",
+						name: "backoffLimit",
+						type: "number",
 						typeOptions: {
-							multipleValues: true,
+							minValue: 0,
 						},
+						default: 6,
+						description: "Number of retries before the job is marked as failed",
+					},
+					{
+						displayName: "Completion Mode",
+						name: "completionMode",
+						type: "options",
 						options: [
 							{
-								displayName: "Environment Variable",
-								name: "env",
-								values: [
-									{
-										displayName: "Name",
-										name: "name",
-										type: "string",
-										default: "",
-										description: "Environment variable name",
-									},
-									{
-										displayName: "Value",
-										name: "value",
-										type: "string",
-										default: "",
-										description: "Environment variable value",
-									},
-								],
+								name: "Indexed",
+								value: "Indexed",
+								description: "Each pod gets a completion index from 0 to Completions - 1, the output is collected per index",
+							},
+							{
+								name: "Non-Indexed",
+								value: "NonIndexed",
+								description: "The job completes after Completions pods succeeded",
 							},
 						],
+						default: "NonIndexed",
+					},
+					{
+						displayName: "Completions",
+						name: "completions",
+						type: "number",
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: "Number of pods that must succeed",
+					},
+					{
+						displayName: "Parallelism",
+						name: "parallelism",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 1,
+						description: "Maximum number of pods running at the same time",
+					},
+					{
+						displayName: "Pod Failure Policy",
+						name: "podFailurePolicy",
+						type: "json",
+						default: "{\"rules\": []}",
+						description: "Rules deciding on exit codes and pod conditions whether a failed pod counts against the backoff limit. Needs the restart policy Never.",
+						placeholder: "{\"rules\": [{\"action\": \"FailJob\", \"onExitCodes\": {\"operator\": \"In\", \"values\": [42]}}]}",
+					},
+					{
+						displayName: "TTL Seconds After Finished",
+						name: "ttlSecondsAfterFinished",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 3600,
+						description: "Time after which Kubernetes deletes the finished job. Keep it long enough for the output to be read, or use Cleanup Job instead.",
 					},
 				],
 			},
-			// Resource operations parameters
+			// Input data of Run Pod and Create Job
 			{
-				displayName: "API Version",
-				name: "apiVersion",
-				type: "string",
-				default: "v1",
-				displayOptions: {
-					show: {
-						operation: ["patch", "get", "list"],
+				displayName: "Input Data",
+				name: "inputMode",
+				type: "options",
+				options: [
+					{
+						name: "File From ConfigMap",
+						value: "configMap",
+						description: "Mount the data as a file from a temporary ConfigMap",
 					},
-				},
-				description: "API version of the resource (e.g., v1, apps/v1, batch/v1)",
+					{
+						name: "File From Secret",
+						value: "secret",
+						description: "Mount the data as a file from a temporary Secret",
+					},
+					{
+						name: "None",
+						value: "none",
+					},
+					{
+						name: "Standard Input",
+						value: "stdin",
+						description: "Write the data to the standard input of the container",
+					},
+				],
+				default: "none",
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+					},
+				},
+				description: "How the input item is passed to the container",
+			},
+			{
+				displayName: "Input Source",
+				name: "inputSource",
+				type: "options",
+				options: [
+					{
+						name: "Binary Property",
+						value: "binary",
+					},
+					{
+						name: "Item JSON",
+						value: "json",
+					},
+				],
+				default: "json",
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+					},
+					hide: {
+						inputMode: ["none"],
+					},
+				},
+				description: "Which data of the input item is passed",
+			},
+			{
+				displayName: "Input Binary Property",
+				name: "inputBinaryPropertyName",
+				type: "string",
+				default: "data",
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+						inputSource: ["binary"],
+					},
+					hide: {
+						inputMode: ["none"],
+					},
+				},
+				description: "Name of the binary property holding the input data",
+			},
+			{
+				displayName: "Input File Path",
+				name: "inputFilePath",
+				type: "string",
+				default: "/n8n/input",
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+						inputMode: ["configMap", "secret"],
+					},
+				},
+				description: "Path in the container where the input file is mounted",
+			},
+			{
+				displayName: "Fail on Non-Zero Exit Code",
+				name: "failOnNonZeroExit",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["run", "createJob"],
+					},
+				},
+				description: "Whether to fail the node when the container exits with a non-zero code, the pod fails or the job fails. With On Error set to continue using the error output, the item goes to the error output instead, together with the output of the run.",
+			},
+			// Trigger CronJob parameters
+			{
+				displayName: "CronJob Name or ID",
+				name: "cronJobName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getCronJobs",
+					loadOptionsDependsOn: ["cronJobNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["triggerCronJob"],
+					},
+				},
+				description: "Name of the CronJob to trigger. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "cronJobNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["triggerCronJob"],
+					},
+				},
+				description: "Kubernetes namespace for the CronJob. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Cleanup Job",
+				name: "cronJobCleanup",
+				type: "boolean",
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ["triggerCronJob"],
+					},
+				},
+				description: "Whether to delete the job after completion",
+			},
+			// CronJob Override Parameters
+			{
+				displayName: "Override Parameters",
+				name: "cronJobOverrides",
+				type: "collection",
+				displayOptions: {
+					show: {
+						operation: ["triggerCronJob"],
+					},
+				},
+				default: {},
+				placeholder: "Add Override Parameter",
+				description: "Override CronJob container parameters",
+				options: [
+					{
+						displayName: "Override Command",
+						name: "overrideCommand",
+						type: "json",
+						default: "[]",
+						description: 'Override container command (JSON array). Example: ["/bin/bash", "-c"].',
+						placeholder: "[\"/bin/bash\", \"-c\"]",
+					},
+					{
+						displayName: "Override Args",
+						name: "overrideArgs",
+						type: "json",
+						default: "[]",
+						description: 'Override container arguments (JSON array). Example: ["echo", "Hello from n8n!"].',
+						placeholder: "[\"echo\", \"Hello from n8n!\"]",
+					},
+					{
+						displayName: "Override Environment Variables",
+						name: "overrideEnvs",
+						type: "fixedCollection",
+						default: { env: [] },
+						description: "Override or add environment variables",
+						typeOptions: {
+							multipleValues: true,
+						},
+						options: [
+							{
+								displayName: "Environment Variable",
+								name: "env",
+								values: [
+									{
+										displayName: "Name",
+										name: "name",
+										type: "string",
+										default: "",
+										description: "Environment variable name",
+									},
+									{
+										displayName: "Value",
+										name: "value",
+										type: "string",
+										default: "",
+										description: "Environment variable value",
+									},
+								],
+							},
+						],
+					},
+				],
+			},
+			// Resource operations parameters
+			{
+				displayName: "API Version Name or ID",
+				name: "apiVersion",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getApiVersions",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["patch", "get", "list", "delete", "scale", "update", "describe"],
+					},
+				},
+				description: "API version of the resource (e.g., v1, apps/v1, batch/v1). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Kind Name or ID",
+				name: "kind",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getKinds",
+					loadOptionsDependsOn: ["apiVersion"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["patch", "get", "list", "delete", "scale", "update", "describe"],
+					},
+				},
+				description: "Kind of the resource (e.g., Pod, Deployment, Service). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Resource Name or ID",
+				name: "resourceName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getResourceNames",
+					loadOptionsDependsOn: ["apiVersion", "kind", "resourceNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["patch", "get", "delete", "scale", "update", "describe"],
+					},
+				},
+				description: "Name of the specific resource. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "resourceNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["patch", "get", "list", "delete", "scale", "update", "describe"],
+					},
+					hide: {
+						kind: CLUSTER_SCOPED_KINDS,
+						listAllNamespaces: [true],
+					},
+				},
+				description: "Kubernetes namespace for the resource. Ignored for cluster-scoped resources. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "All Namespaces",
+				name: "listAllNamespaces",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["list"],
+					},
+				},
+				description: "Whether to list resources across all namespaces",
+			},
+			{
+				displayName: "Filters",
+				name: "listFilters",
+				type: "collection",
+				displayOptions: {
+					show: {
+						operation: ["list"],
+					},
+				},
+				default: {},
+				placeholder: "Add Filter",
+				options: [
+					{
+						displayName: "Field Selector",
+						name: "fieldSelector",
+						type: "string",
+						default: "",
+						placeholder: "status.phase=Running",
+						description: "Only return resources whose fields match the selector",
+					},
+					{
+						displayName: "Label Selector",
+						name: "labelSelector",
+						type: "string",
+						default: "",
+						placeholder: "app=myapp,tier!=frontend",
+						description: "Only return resources whose labels match the selector",
+					},
+				],
+			},
+			{
+				displayName: "Return All",
+				name: "listReturnAll",
+				type: "boolean",
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ["list"],
+					},
+				},
+				description: "Whether to return all results or only up to a given limit",
+			},
+			{
+				displayName: "Limit",
+				name: "listLimit",
+				type: "number",
+				default: 50,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ["list"],
+						listReturnAll: [false],
+					},
+				},
+				description: "Max number of results to return",
+			},
+			{
+				displayName: "Split Into Items",
+				name: "listSplitItems",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["list"],
+					},
+				},
+				description: "Whether to output one item per resource instead of a single list object",
+			},
+			{
+				displayName: "Patch Data",
+				name: "patchData",
+				type: "string",
+				default: "{}",
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ["patch"],
+					},
+				},
+				description:
+					"Patch data to apply to the resource, in YAML or JSON format. A JSON Patch is a list of operations, all other types take an object.",
+			},
+			{
+				displayName: "Patch Type",
+				name: "patchType",
+				type: "options",
+				options: [
+					{
+						name: "Automatic",
+						value: "default",
+						description:
+							"Strategic merge patch, or merge patch for resources that reject it such as custom resources",
+					},
+					{
+						name: "JSON Patch",
+						value: "json",
+						description: "List of RFC 6902 operations such as add, remove and replace",
+					},
+					{
+						name: "Merge Patch",
+						value: "merge",
+						description: "RFC 7386 merge, lists are replaced as a whole",
+					},
+					{
+						name: "Server-Side Apply",
+						value: "apply",
+						description:
+							"Apply a partial manifest with field manager n8n, taking over conflicting fields",
+					},
+					{
+						name: "Strategic Merge Patch",
+						value: "strategic",
+						description: "Merge lists such as containers by key, built-in resources only",
+					},
+				],
+				default: "default",
+				displayOptions: {
+					show: {
+						operation: ["patch"],
+					},
+				},
+			},
+			// Update Resource parameters
+			{
+				displayName: "Update Mode",
+				name: "updateMode",
+				type: "options",
+				options: [
+					{
+						name: "Merge Into Current",
+						value: "merge",
+						description:
+							"Read the current object and merge the data into it, null values remove fields",
+					},
+					{
+						name: "Replace",
+						value: "replace",
+						description: "Replace the whole object with the data",
+					},
+				],
+				default: "replace",
+				displayOptions: {
+					show: {
+						operation: ["update"],
+					},
+				},
+			},
+			{
+				displayName: "Update Data",
+				name: "updateData",
+				type: "string",
+				default: "",
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ["update"],
+					},
+				},
+				description:
+					"Object in YAML or JSON format. Without metadata.resourceVersion the version read from the cluster is used and conflicts are retried, with it a conflict fails immediately.",
+			},
+			{
+				displayName: "Max Conflict Retries",
+				name: "updateMaxRetries",
+				type: "number",
+				default: 3,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ["update"],
+					},
+				},
+				description: "How many times to re-read and retry the update when the resource changed in the meantime",
+			},
+			// Delete Resource parameters
+			{
+				displayName: "Propagation Policy",
+				name: "deletePropagationPolicy",
+				type: "options",
+				options: [
+					{
+						name: "Background",
+						value: "Background",
+						description: "Delete the resource immediately and let the garbage collector remove dependents",
+					},
+					{
+						name: "Foreground",
+						value: "Foreground",
+						description: "Delete dependents before the resource itself is removed",
+					},
+					{
+						name: "Orphan",
+						value: "Orphan",
+						description: "Delete the resource and leave its dependents running",
+					},
+				],
+				default: "Background",
+				displayOptions: {
+					show: {
+						operation: ["delete"],
+					},
+				},
+				description: "How dependent resources are handled when the resource is deleted",
+			},
+			{
+				displayName: "Delete Options",
+				name: "deleteOptions",
+				type: "collection",
+				displayOptions: {
+					show: {
+						operation: ["delete"],
+					},
+				},
+				default: {},
+				placeholder: "Add Delete Option",
+				options: [
+					{
+						displayName: 'Grace Period (Seconds)',
+						name: "gracePeriodSeconds",
+						type: "number",
+						default: 30,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: "Duration before the resource is forcibly terminated. Zero deletes immediately.",
+					},
+				],
+			},
+			{
+				displayName: "Wait Until Deleted",
+				name: "deleteWaitForDeletion",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["delete"],
+					},
+				},
+				description: "Whether to wait until the resource is actually gone from the cluster",
+			},
+			{
+				displayName: 'Wait Timeout (Seconds)',
+				name: "deleteWaitTimeout",
+				type: "number",
+				default: 300,
+				displayOptions: {
+					show: {
+						operation: ["delete"],
+						deleteWaitForDeletion: [true],
+					},
+				},
+				description: "Timeout in seconds for waiting until the resource is deleted",
+			},
+			// Scale parameters
+			{
+				displayName: "Replicas",
+				name: "scaleReplicas",
+				type: "string",
+				default: "1",
+				placeholder: "3, +2 or -1",
+				displayOptions: {
+					show: {
+						operation: ["scale"],
+					},
+				},
+				description: "Absolute replica count, or a relative change prefixed with + or -",
+			},
+			{
+				displayName: "Wait for Ready",
+				name: "scaleWaitForReady",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["scale"],
+					},
+				},
+				description: "Whether to wait until the number of ready replicas matches the new replica count. Custom resources without readyReplicas are counted by the status replicas of their scale subresource.",
+			},
+			{
+				displayName: "Wait Timeout",
+				name: "scaleWaitTimeout",
+				type: "number",
+				default: 300,
+				displayOptions: {
+					show: {
+						operation: ["scale"],
+						scaleWaitForReady: [true],
+					},
+				},
+				description: "Timeout in seconds for waiting until the replicas are ready",
+			},
+			// Rollout parameters
+			{
+				displayName: "Action",
+				name: "rolloutAction",
+				type: "options",
+				noDataExpression: true,
+				options: [
+					{
+						name: "History",
+						value: "history",
+						description: "List the revisions of the workload with their images",
+					},
+					{
+						name: "Restart",
+						value: "restart",
+						description: "Restart all pods of the workload with a rolling update",
+					},
+					{
+						name: "Status",
+						value: "status",
+						description: "Get the rollout status, optionally waiting until the rollout completes",
+					},
+					{
+						name: "Undo",
+						value: "undo",
+						description: "Roll back to the previous or a chosen revision",
+					},
+				],
+				default: "status",
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+					},
+				},
+			},
+			{
+				displayName: "Kind",
+				name: "rolloutKind",
+				type: "options",
+				options: [
+					{
+						name: "DaemonSet",
+						value: "DaemonSet",
+					},
+					{
+						name: "Deployment",
+						value: "Deployment",
+					},
+					{
+						name: "StatefulSet",
+						value: "StatefulSet",
+					},
+				],
+				default: "Deployment",
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+					},
+				},
+			},
+			{
+				displayName: "Name or ID",
+				name: "rolloutName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getResourceNames",
+					loadOptionsDependsOn: ["rolloutKind", "rolloutNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+					},
+				},
+				description: "Name of the workload. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "rolloutNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+					},
+				},
+				description: "Kubernetes namespace of the workload. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "To Revision",
+				name: "rolloutToRevision",
+				type: "number",
+				default: 0,
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+						rolloutAction: ["undo"],
+					},
+				},
+				description: "Revision to roll back to. 0 rolls back to the previous revision.",
+			},
+			{
+				displayName: "Wait for Rollout",
+				name: "rolloutWait",
+				type: "boolean",
+				default: true,
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+						rolloutAction: ["restart", "status", "undo"],
+					},
+				},
+				description: "Whether to wait until the rollout has completed",
+			},
+			{
+				displayName: "Timeout",
+				name: "rolloutTimeout",
+				type: "number",
+				default: 300,
+				displayOptions: {
+					show: {
+						operation: ["rollout"],
+						rolloutAction: ["restart", "status", "undo"],
+						rolloutWait: [true],
+					},
+				},
+				description: "Timeout in seconds for waiting until the rollout has completed",
+			},
+			// Set Image parameters
+			{
+				displayName: "Kind",
+				name: "setImageKind",
+				type: "options",
+				options: [
+					{
+						name: "CronJob",
+						value: "CronJob",
+					},
+					{
+						name: "DaemonSet",
+						value: "DaemonSet",
+					},
+					{
+						name: "Deployment",
+						value: "Deployment",
+					},
+					{
+						name: "StatefulSet",
+						value: "StatefulSet",
+					},
+				],
+				default: "Deployment",
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+					},
+				},
+			},
+			{
+				displayName: "Name or ID",
+				name: "setImageName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getResourceNames",
+					loadOptionsDependsOn: ["setImageKind", "setImageNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+					},
+				},
+				description: "Name of the workload. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "setImageNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+					},
+				},
+				description: "Kubernetes namespace of the workload. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Container Name",
+				name: "setImageContainer",
+				type: "string",
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+					},
+				},
+				description: "Name of the container to update. Leave empty to update all containers, including init containers.",
+			},
+			{
+				displayName: "Image",
+				name: "setImageImage",
+				type: "string",
+				default: "",
+				placeholder: "registry.example.com/app:1.2.3",
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+					},
+				},
+				description: "New container image",
+			},
+			{
+				displayName: "Wait for Rollout",
+				name: "setImageWait",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+						setImageKind: ["DaemonSet", "Deployment", "StatefulSet"],
+					},
+				},
+				description: "Whether to wait until the rollout of the new image has completed",
+			},
+			{
+				displayName: "Timeout",
+				name: "setImageTimeout",
+				type: "number",
+				default: 300,
+				displayOptions: {
+					show: {
+						operation: ["setImage"],
+						setImageKind: ["DaemonSet", "Deployment", "StatefulSet"],
+						setImageWait: [true],
+					},
+				},
+				description: "Timeout in seconds for waiting until the rollout has completed",
+			},
+			// Wait Resource parameters
+			{
+				displayName: "API Version Name or ID",
+				name: "waitApiVersion",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getApiVersions",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["wait"],
+					},
+				},
+				description: "API version of the resource to wait for. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Kind Name or ID",
+				name: "waitKind",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getKinds",
+					loadOptionsDependsOn: ["waitApiVersion"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["wait"],
+					},
+				},
+				description: "Kind of the resource to wait for. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Resource Name or ID",
+				name: "waitResourceName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getResourceNames",
+					loadOptionsDependsOn: ["waitApiVersion", "waitKind", "waitNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["wait"],
+					},
+				},
+				description: "Name of the resource to wait for. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "waitNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["wait"],
+					},
+					hide: {
+						waitKind: CLUSTER_SCOPED_KINDS,
+					},
+				},
+				description: "Kubernetes namespace for the resource. Ignored for cluster-scoped resources. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Condition",
+				name: "waitCondition",
+				type: "options",
+				options: [
+					{
+						name: "Available",
+						value: "Available",
+					},
+					{
+						name: "Complete",
+						value: "Complete",
+					},
+					{
+						name: "Failed",
+						value: "Failed",
+					},
+					{
+						name: "Ready",
+						value: "Ready",
+					},
+					{
+						name: "Rolled Out",
+						value: "RolledOut",
+						description: "The rollout of a Deployment, StatefulSet or DaemonSet has completed",
+					},
+					{
+						name: "Succeeded",
+						value: "Succeeded",
+					},
+				],
+				default: "Ready",
+				displayOptions: {
+					show: {
+						operation: ["wait"],
+					},
+				},
+				description: "Condition to wait for",
 			},
 			{
-				displayName: "Kind",
-				name: "kind",
-				type: "string",
-				default: "Pod",
+				displayName: 'Timeout (Seconds)',
+				name: "waitTimeout",
+				type: "number",
+				default: 300,
 				displayOptions: {
 					show: {
-						operation: ["patch", "get", "list"],
+						operation: ["wait"],
 					},
 				},
-				description: "Kind of the resource (e.g., Pod, Deployment, Service)",
+				description: "Timeout in seconds for waiting",
 			},
+			// Get Logs parameters
 			{
-				displayName: "Resource Name",
-				name: "resourceName",
-				type: "string",
+				displayName: "Pod Selection Method",
+				name: "logsPodSelectionMethod",
+				type: "options",
+				options: [
+					{
+						name: "Pod Name",
+						value: "podName",
+					},
+					{
+						name: "Label Selector",
+						value: "labelSelector",
+					},
+				],
+				default: "podName",
+				displayOptions: {
+					show: {
+						operation: ["logs"],
+					},
+				},
+				description: "Method to select pod(s) for log retrieval",
+			},
+			{
+				displayName: "Pod Name or ID",
+				name: "logsPodName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getPods",
+					loadOptionsDependsOn: ["logsNamespace"],
+				},
 				default: "",
 				displayOptions: {
 					show: {
-						operation: ["patch", "get"],
+						operation: ["logs"],
+						logsPodSelectionMethod: ["podName"],
 					},
 				},
-				description: "Name of the specific resource",
+				description: "Name of the pod to get logs from. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
-				displayName: "Namespace",
-				name: "resourceNamespace",
+				displayName: "Label Selector",
+				name: "logsLabelSelector",
 				type: "string",
-				default: "default",
+				default: "",
 				displayOptions: {
 					show: {
-						operation: ["patch", "get", "list"],
+						operation: ["logs"],
+						logsPodSelectionMethod: ["labelSelector"],
 					},
 				},
-				description: "Kubernetes namespace for the resource",
+				description: "Label selector to select pod(s) (e.g., app=myapp,version=v1)",
 			},
 			{
-				displayName: "Patch Data",
-				name: "patchData",
-				type: "json",
-				default: "{}",
+				displayName: "Namespace Name or ID",
+				name: "logsNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
 				displayOptions: {
 					show: {
-						operation: ["patch"],
+						operation: ["logs"],
 					},
 				},
-				description: "JSON patch data to apply to the resource",
+				description: "Kubernetes namespace for the pod(s). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
-			// Wait Resource parameters
 			{
-				displayName: "API Version",
-				name: "waitApiVersion",
-				type: "string",
-				default: "v1",
+				displayName: "Container Name or ID",
+				name: "logsContainer",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getContainers",
+					loadOptionsDependsOn: ["logsPodSelectionMethod", "logsPodName", "logsLabelSelector", "logsNamespace"],
+				},
+				default: "",
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["logs"],
 					},
 				},
-				description: "API version of the resource to wait for",
+				description: "Name of the container (optional, defaults to first container). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
-				displayName: "Kind",
-				name: "waitKind",
+				displayName: "Follow Logs",
+				name: "logsFollow",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["logs"],
+					},
+				},
+				description: "Whether to follow log output (stream logs)",
+			},
+			{
+				displayName: "Tail Lines",
+				name: "logsTail",
+				type: "number",
+				default: 100,
+				displayOptions: {
+					show: {
+						operation: ["logs"],
+					},
+				},
+				description: "Number of lines to show from the end of the log",
+			},
+			{
+				displayName: "Since Time",
+				name: "logsSinceTime",
 				type: "string",
-				default: "Pod",
+				default: "",
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["logs"],
+					},
+				},
+				description: "Only return logs after this time (RFC3339 format, e.g., 2024-01-01T00:00:00Z)",
+			},
+			// Get Events parameters
+			{
+				displayName: "Namespace Name or ID",
+				name: "eventsNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["events"],
+						eventsAllNamespaces: [false],
 					},
 				},
-				description: "Kind of the resource to wait for",
+				description: "Namespace to list events from, defaults to the namespace of the credential. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
-				displayName: "Resource Name",
-				name: "waitResourceName",
+				displayName: "All Namespaces",
+				name: "eventsAllNamespaces",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["events"],
+					},
+				},
+				description: "Whether to list the events of every namespace",
+			},
+			{
+				displayName: "Involved Object Kind",
+				name: "eventsInvolvedKind",
 				type: "string",
 				default: "",
+				placeholder: "Pod",
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["events"],
 					},
 				},
-				description: "Name of the resource to wait for",
+				description: "Only return events about objects of this kind",
 			},
 			{
-				displayName: "Namespace",
-				name: "waitNamespace",
+				displayName: "Involved Object Name",
+				name: "eventsInvolvedName",
 				type: "string",
-				default: "default",
+				default: "",
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["events"],
 					},
 				},
-				description: "Kubernetes namespace for the resource",
+				description: "Only return events about the object with this name",
 			},
 			{
-				displayName: "Condition",
-				name: "waitCondition",
+				displayName: "Event Type",
+				name: "eventsType",
 				type: "options",
 				options: [
 					{
-						name: "Available",
-						value: "Available",
+						name: "All",
+						value: "",
 					},
 					{
-						name: "Complete",
-						value: "Complete",
+						name: "Normal",
+						value: "Normal",
 					},
 					{
-						name: "Failed",
-						value: "Failed",
+						name: "Warning",
+						value: "Warning",
+					},
+				],
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["events"],
+					},
+				},
+			},
+			{
+				displayName: "Since Time",
+				name: "eventsSinceTime",
+				type: "string",
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["events"],
 					},
+				},
+				description: "Only return events last seen after this time (RFC3339 format, e.g., 2024-01-01T00:00:00Z)",
+			},
+			// Exec in Pod parameters
+			{
+				displayName: "Pod Selection Method",
+				name: "execPodSelectionMethod",
+				type: "options",
+				options: [
 					{
-						name: "Ready",
-						value: "Ready",
+						name: "Pod Name",
+						value: "podName",
 					},
 					{
-						name: "Succeeded",
-						value: "Succeeded",
+						name: "Label Selector",
+						value: "labelSelector",
 					},
 				],
-				default: "Ready",
+				default: "podName",
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["exec"],
 					},
 				},
-				description: "Condition to wait for",
+				description: "Method to select the pod to run the command in",
 			},
 			{
-				displayName: 'Timeout (Seconds)',
-				name: "waitTimeout",
+				displayName: "Pod Name or ID",
+				name: "execPodName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getPods",
+					loadOptionsDependsOn: ["execNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+						execPodSelectionMethod: ["podName"],
+					},
+				},
+				description: "Name of the pod to run the command in. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Label Selector",
+				name: "execLabelSelector",
+				type: "string",
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+						execPodSelectionMethod: ["labelSelector"],
+					},
+				},
+				description: "Label selector to select the pod (e.g., app=myapp). The first running pod that matches is used.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "execNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+					},
+				},
+				description: "Kubernetes namespace of the pod. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Container Name or ID",
+				name: "execContainer",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getContainers",
+					loadOptionsDependsOn: ["execPodSelectionMethod", "execPodName", "execLabelSelector", "execNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+					},
+				},
+				description: "Name of the container (optional, defaults to first container). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Command",
+				name: "execCommand",
+				type: "json",
+				default: "[]",
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+					},
+				},
+				description: "Command to run in the container (JSON array), e.g. [\"sh\", \"-c\", \"echo hello\"]",
+			},
+			{
+				displayName: "Stdin",
+				name: "execStdin",
+				type: "string",
+				default: "",
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						operation: ["exec"],
+					},
+				},
+				description: "Text written to the standard input of the command (optional)",
+			},
+			{
+				displayName: "Timeout",
+				name: "execTimeout",
 				type: "number",
 				default: 300,
 				displayOptions: {
 					show: {
-						operation: ["wait"],
+						operation: ["exec"],
 					},
 				},
-				description: "Timeout in seconds for waiting",
+				description: "Timeout in seconds for the command to finish",
 			},
-			// Get Logs parameters
+			// Download / Upload File parameters
 			{
 				displayName: "Pod Selection Method",
-				name: "logsPodSelectionMethod",
+				name: "filePodSelectionMethod",
 				type: "options",
 				options: [
 					{
@@ -491,121 +1976,165 @@ export class Kubernetes implements INodeType {
 				default: "podName",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["download", "upload"],
 					},
 				},
-				description: "Method to select pod(s) for log retrieval",
+				description: "Method to select the pod to copy files from or to",
 			},
 			{
-				displayName: "Pod Name",
-				name: "logsPodName",
+				displayName: "Pod Name or ID",
+				name: "filePodName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getPods",
+					loadOptionsDependsOn: ["fileNamespace"],
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["download", "upload"],
+						filePodSelectionMethod: ["podName"],
+					},
+				},
+				description: "Name of the pod. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Label Selector",
+				name: "fileLabelSelector",
 				type: "string",
 				default: "",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
-						logsPodSelectionMethod: ["podName"],
+						operation: ["download", "upload"],
+						filePodSelectionMethod: ["labelSelector"],
+					},
+				},
+				description: "Label selector to select the pod (e.g., app=myapp). The first running pod that matches is used.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "fileNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["download", "upload"],
 					},
 				},
-				description: "Name of the pod to get logs from",
+				description: "Kubernetes namespace of the pod. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
-				displayName: "Label Selector",
-				name: "logsLabelSelector",
-				type: "string",
+				displayName: "Container Name or ID",
+				name: "fileContainer",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getContainers",
+					loadOptionsDependsOn: ["filePodSelectionMethod", "filePodName", "fileLabelSelector", "fileNamespace"],
+				},
 				default: "",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
-						logsPodSelectionMethod: ["labelSelector"],
+						operation: ["download", "upload"],
 					},
 				},
-				description: "Label selector to select pod(s) (e.g., app=myapp,version=v1)",
+				description: "Name of the container (optional, defaults to first container). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
-				displayName: "Namespace",
-				name: "logsNamespace",
+				displayName: "Source Path",
+				name: "downloadPath",
 				type: "string",
-				default: "default",
+				default: "",
+				placeholder: "/tmp/dump.sql",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["download"],
 					},
 				},
-				description: "Kubernetes namespace for the pod(s)",
+				description: "Path of the file or directory in the container. The container image must provide tar.",
 			},
 			{
-				displayName: "Container Name",
-				name: "logsContainer",
+				displayName: "Put Output File in Field",
+				name: "downloadBinaryPropertyName",
 				type: "string",
-				default: "",
+				default: "data",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["download"],
 					},
 				},
-				description: "Name of the container (optional, defaults to first container)",
+				hint: "The name of the output binary field to put the file in",
+				description: "When a directory is downloaded, each file is put in its own field with an index suffix (e.g. data_0, data_1)",
 			},
 			{
-				displayName: "Follow Logs",
-				name: "logsFollow",
-				type: "boolean",
-				default: false,
+				displayName: "Input Binary Fields",
+				name: "uploadBinaryPropertyName",
+				type: "string",
+				default: "data",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["upload"],
 					},
 				},
-				description: "Whether to follow log output (stream logs)",
+				description: "Comma-separated names of the input binary fields holding the files to upload",
 			},
 			{
-				displayName: "Tail Lines",
-				name: "logsTail",
-				type: "number",
-				default: 100,
+				displayName: "Destination Directory",
+				name: "uploadDirectory",
+				type: "string",
+				default: "",
+				placeholder: "/tmp",
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["upload"],
 					},
 				},
-				description: "Number of lines to show from the end of the log",
+				description: "Directory in the container to write the files to, keeping their file names. It is created if it does not exist. The container image must provide sh and tar.",
 			},
 			{
-				displayName: "Since Time",
-				name: "logsSinceTime",
-				type: "string",
-				default: "",
+				displayName: "Timeout",
+				name: "fileTimeout",
+				type: "number",
+				default: 300,
 				displayOptions: {
 					show: {
-						operation: ["logs"],
+						operation: ["download", "upload"],
 					},
 				},
-				description: "Only return logs after this time (RFC3339 format, e.g., 2024-01-01T00:00:00Z)",
+				description: "Timeout in seconds for the copy to finish",
 			},
 			// Create Resource parameters
 			{
-				displayName: "Resource JSON",
+				displayName: "Resource Manifest",
 				name: "createResourceJson",
-				type: "json",
+				type: "string",
 				default: "{}",
+				typeOptions: {
+					rows: 10,
+				},
 				displayOptions: {
 					show: {
 						operation: ["create"],
 					},
 				},
-				description: "Complete Kubernetes resource definition in JSON format",
+				description: "Kubernetes resource definition in YAML or JSON format. Separate multiple documents with ---.",
 			},
 			{
-				displayName: "Namespace",
+				displayName: "Namespace Name or ID",
 				name: "createNamespace",
-				type: "string",
-				default: "default",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
 				displayOptions: {
 					show: {
 						operation: ["create"],
 					},
 				},
-				description: "Kubernetes namespace for the resource (will override namespace in JSON if provided)",
+				description: "Kubernetes namespace for the resource (will override namespace in JSON if provided). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
 			},
 			{
 				displayName: "Watch Condition",
@@ -658,13 +2187,85 @@ export class Kubernetes implements INodeType {
 				},
 				description: "Timeout in seconds for watching the condition",
 			},
+			// Apply Resource parameters
+			{
+				displayName: "Resource Manifest",
+				name: "applyResourceJson",
+				type: "string",
+				default: "{}",
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ["apply"],
+					},
+				},
+				description: "Kubernetes resource definition in YAML or JSON format. Separate multiple documents with ---.",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "applyNamespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						operation: ["apply"],
+					},
+				},
+				description: "Kubernetes namespace for the resource (will override namespace in JSON if provided). Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Field Manager",
+				name: "applyFieldManager",
+				type: "string",
+				default: "n8n",
+				displayOptions: {
+					show: {
+						operation: ["apply"],
+					},
+				},
+				description: "Name of the manager that owns the applied fields",
+			},
+			{
+				displayName: "Force Conflicts",
+				name: "applyForceConflicts",
+				type: "boolean",
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ["apply"],
+					},
+				},
+				description: "Whether to take ownership of fields currently owned by other field managers",
+			},
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			kubernetesConnectionTest,
+		},
+		loadOptions: {
+			getApiVersions,
+			getContainers,
+			getContexts,
+			getCronJobs,
+			getKinds,
+			getNamespaces,
+			getPods,
+			getResourceNames,
+		},
+	};
+
 	async execute(
 		this: IExecuteFunctions
 	): Promise<INodeExecutionData[][] | NodeExecutionWithMetadata[][]> {
 		const result: INodeExecutionData[] = [];
+		const parameterHelper = new ParameterHelper(this);
 
 		for (let idx = 0; idx < this.getInputData().length; idx++) {
 			const credentials = await this.getCredentials(
@@ -678,8 +2279,13 @@ export class Kubernetes implements INodeType {
 				);
 			}
 
-			const k8s = new K8SClient(credentials, this);
-			let data: IDataObject = {};
+			const k8s = new K8SClient(
+				credentials,
+				this,
+				this.getNodeParameter("context", idx, "") as string
+			);
+			let data: IDataObject | IDataObject[] = {};
+			let binary: IBinaryKeyData | undefined;
 			const operation = this.getNodeParameter("operation", idx) as string;
 
 			try {
@@ -689,8 +2295,8 @@ export class Kubernetes implements INodeType {
 						this.getNodeParameter("command", idx) as any
 					);
 					const namespace =
-						(this.getNodeParameter("namespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("namespace", idx) as string) ||
+						k8s.defaultNamespace;
 					if (!Array.isArray(command)) {
 						throw new NodeOperationError(
 							this.getNode(),
@@ -698,14 +2304,33 @@ export class Kubernetes implements INodeType {
 						);
 					}
 
-					data = {
-						stdout: await k8s.runPodAndGetOutput(
-							image,
-							command,
-							undefined,
-							namespace
-						),
-					};
+					const podOptions = parameterHelper.parsePodOptions(
+						this.getNodeParameter("podOptions", idx, {}) as IDataObject
+					);
+
+					const runResult = await k8s.runPodAndGetOutput(
+						image,
+						command,
+						undefined,
+						namespace,
+						podOptions,
+						await parameterHelper.getPodInput(idx)
+					);
+					// Evicted pods and pods past their deadline fail without an exit code
+					if (
+						this.getNodeParameter("failOnNonZeroExit", idx, false) &&
+						(runResult.exitCode || runResult.phase === "Failed")
+					) {
+						const error = new NodeOperationError(
+							this.getNode(),
+							`Pod "${runResult.podName}" ${runResult.exitCode ? `exited with code ${runResult.exitCode}` : "failed"}${runResult.reason ? ` (${runResult.reason})` : ""}`,
+							{ itemIndex: idx, description: runResult.stderr || runResult.message }
+						);
+						error.context.result = runResult;
+						throw error;
+					}
+
+					data = { ...runResult };
 				} else if (operation === "createJob") {
 					const jobName = this.getNodeParameter("jobName", idx) as string;
 					const jobImage = this.getNodeParameter("jobImage", idx) as string;
@@ -713,12 +2338,20 @@ export class Kubernetes implements INodeType {
 						this.getNodeParameter("jobCommand", idx) as any
 					);
 					const jobNamespace =
-						(this.getNodeParameter("jobNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("jobNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 					const restartPolicy =
 						(this.getNodeParameter("restartPolicy", idx) as string) ??
 						"Never";
 					const cleanupJob = this.getNodeParameter("cleanupJob", idx) as boolean;
+					const includeAllPods = this.getNodeParameter("includeAllPods", idx, false) as boolean;
+					const jobPodOptions = parameterHelper.parsePodOptions(
+						this.getNodeParameter("podOptions", idx, {}) as IDataObject
+					);
+					const jobOptions = parameterHelper.parseJobOptions(
+						this.getNodeParameter("jobOptions", idx, {}) as IDataObject,
+						restartPolicy
+					);
 
 					if (!Array.isArray(jobCommand)) {
 						throw new NodeOperationError(
@@ -733,7 +2366,11 @@ export class Kubernetes implements INodeType {
 						jobName,
 						jobNamespace,
 						restartPolicy,
-						cleanupJob
+						cleanupJob,
+						jobPodOptions,
+						jobOptions,
+						await parameterHelper.getPodInput(idx),
+						includeAllPods
 					);
 
 					// Return job details and output
@@ -742,12 +2379,38 @@ export class Kubernetes implements INodeType {
 						namespace: jobResult.namespace,
 						status: jobResult.status,
 						output: jobResult.output,
+						...(jobResult.stderr !== undefined && { stderr: jobResult.stderr }),
+						podName: jobResult.podName,
+						...(jobResult.logsError !== undefined && { logsError: jobResult.logsError }),
+						exitCode: jobResult.exitCode,
+						reason: jobResult.reason,
+						startedAt: jobResult.startedAt,
+						finishedAt: jobResult.finishedAt,
+						durationSeconds: jobResult.durationSeconds,
+						...(includeAllPods && {
+							podsFound: jobResult.podsFound,
+							pods: jobResult.pods,
+							totalLogs: jobResult.totalLogs,
+						}),
 					};
+
+					if (
+						this.getNodeParameter("failOnNonZeroExit", idx, false) &&
+						(jobResult.status === "failed" || jobResult.exitCode)
+					) {
+						const error = new NodeOperationError(
+							this.getNode(),
+							`Job "${jobResult.jobName}" failed${jobResult.exitCode ? ` with exit code ${jobResult.exitCode}` : ""}${jobResult.reason ? ` (${jobResult.reason})` : ""}`,
+							{ itemIndex: idx, description: jobResult.stderr }
+						);
+						error.context.result = data;
+						throw error;
+					}
 				} else if (operation === "triggerCronJob") {
 					const cronJobName = this.getNodeParameter("cronJobName", idx) as string;
 					const cronJobNamespace =
-						(this.getNodeParameter("cronJobNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("cronJobNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 					const cronJobCleanup = this.getNodeParameter("cronJobCleanup", idx) as boolean;
 					const cronJobOverrides = this.getNodeParameter("cronJobOverrides", idx) as IDataObject;
 
@@ -831,30 +2494,84 @@ export class Kubernetes implements INodeType {
 						overridesApplied: triggerResult.overridesApplied,
 					};
 				} else if (operation === "patch") {
-					const apiVersion = this.getNodeParameter("apiVersion", idx) as string;
-					const kind = this.getNodeParameter("kind", idx) as string;
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
 					const resourceName = this.getNodeParameter("resourceName", idx) as string;
 					const resourceNamespace =
-						(this.getNodeParameter("resourceNamespace", idx) as string) ??
-						"default";
-					const patchData = JSON.parse(
-						this.getNodeParameter("patchData", idx) as any
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const patchData = parameterHelper.parseYamlOrJson(
+						this.getNodeParameter("patchData", idx),
+						"patchData"
 					);
+					const patchType = this.getNodeParameter("patchType", idx, "default") as string;
+					parameterHelper.validatePatchData(patchData, patchType);
 
 					data = await k8s.patchResource(
 						apiVersion,
 						kind,
 						resourceName,
 						resourceNamespace,
-						patchData
+						patchData,
+						patchType
+					);
+				} else if (operation === "update") {
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
+					const resourceName = this.getNodeParameter("resourceName", idx) as string;
+					const resourceNamespace =
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const updateMode = this.getNodeParameter("updateMode", idx, "replace") as string;
+					const updateData = parameterHelper.parseYamlOrJson(
+						this.getNodeParameter("updateData", idx),
+						"updateData"
+					);
+					const updateMaxRetries = this.getNodeParameter("updateMaxRetries", idx, 3) as number;
+
+					if (updateData === null || typeof updateData !== "object" || Array.isArray(updateData)) {
+						throw new NodeOperationError(this.getNode(), "Update data must be an object!");
+					}
+
+					data = await k8s.updateResource(
+						apiVersion,
+						kind,
+						resourceName,
+						resourceNamespace,
+						updateData,
+						{
+							mode: updateMode as UpdateOptions["mode"],
+							maxRetries: updateMaxRetries,
+						}
 					);
+				} else if (operation === "describe") {
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
+					const resourceName = this.getNodeParameter("resourceName", idx) as string;
+					const resourceNamespace =
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+
+					data = await k8s.describeResource(apiVersion, kind, resourceName, resourceNamespace);
+				} else if (operation === "events") {
+					const eventsNamespace =
+						(this.getNodeParameter("eventsNamespace", idx, "") as string) ||
+						k8s.defaultNamespace;
+
+					data = await k8s.getEvents(eventsNamespace, {
+						allNamespaces: this.getNodeParameter("eventsAllNamespaces", idx, false) as boolean,
+						involvedKind: this.getNodeParameter("eventsInvolvedKind", idx, "") as string,
+						involvedName: this.getNodeParameter("eventsInvolvedName", idx, "") as string,
+						type: this.getNodeParameter("eventsType", idx, "") as string,
+						sinceTime: this.getNodeParameter("eventsSinceTime", idx, "") as string,
+					});
 				} else if (operation === "get") {
-					const apiVersion = this.getNodeParameter("apiVersion", idx) as string;
-					const kind = this.getNodeParameter("kind", idx) as string;
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
 					const resourceName = this.getNodeParameter("resourceName", idx) as string;
 					const resourceNamespace =
-						(this.getNodeParameter("resourceNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 
 					data = await k8s.getResource(
 						apiVersion,
@@ -863,24 +2580,160 @@ export class Kubernetes implements INodeType {
 						resourceNamespace
 					);
 				} else if (operation === "list") {
-					const apiVersion = this.getNodeParameter("apiVersion", idx) as string;
-					const kind = this.getNodeParameter("kind", idx) as string;
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
 					const resourceNamespace =
-						(this.getNodeParameter("resourceNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 
-					data = await k8s.listResources(
+					const listAllNamespaces = this.getNodeParameter("listAllNamespaces", idx, false) as boolean;
+					const listReturnAll = this.getNodeParameter("listReturnAll", idx, true) as boolean;
+					const listSplitItems = this.getNodeParameter("listSplitItems", idx, false) as boolean;
+					const listFilters = this.getNodeParameter("listFilters", idx, {}) as IDataObject;
+
+					const list = await k8s.listResources(
 						apiVersion,
 						kind,
-						resourceNamespace
+						resourceNamespace,
+						{
+							labelSelector: listFilters.labelSelector as string | undefined,
+							fieldSelector: listFilters.fieldSelector as string | undefined,
+							allNamespaces: listAllNamespaces,
+							limit: listReturnAll
+								? undefined
+								: (this.getNodeParameter("listLimit", idx, 50) as number),
+						}
+					);
+
+					data = listSplitItems ? list.items : list;
+				} else if (operation === "delete") {
+					const apiVersion = (this.getNodeParameter("apiVersion", idx) as string) || "v1";
+					const kind = (this.getNodeParameter("kind", idx) as string) || "Pod";
+					const resourceName = this.getNodeParameter("resourceName", idx) as string;
+					const resourceNamespace =
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const deletePropagationPolicy = this.getNodeParameter("deletePropagationPolicy", idx, "Background") as string;
+					const deleteOptions = this.getNodeParameter("deleteOptions", idx, {}) as IDataObject;
+					const deleteWaitForDeletion = this.getNodeParameter("deleteWaitForDeletion", idx, false) as boolean;
+
+					if (!resourceName || resourceName.trim() === "") {
+						throw new NodeOperationError(
+							this.getNode(),
+							"Resource name is required!"
+						);
+					}
+
+					let deleteWaitTimeout = 300000; // Default 5 minutes
+					if (deleteWaitForDeletion) {
+						deleteWaitTimeout = (this.getNodeParameter("deleteWaitTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+					}
+
+					data = await k8s.deleteResource(
+						apiVersion,
+						kind,
+						resourceName,
+						resourceNamespace,
+						{
+							propagationPolicy: deletePropagationPolicy,
+							gracePeriodSeconds: deleteOptions.gracePeriodSeconds as number | undefined,
+							waitForDeletion: deleteWaitForDeletion,
+							timeout: deleteWaitTimeout,
+						}
+					);
+				} else if (operation === "scale") {
+					const apiVersion = this.getNodeParameter("apiVersion", idx) as string;
+					const kind = this.getNodeParameter("kind", idx) as string;
+					const resourceName = this.getNodeParameter("resourceName", idx) as string;
+					const resourceNamespace =
+						(this.getNodeParameter("resourceNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const scaleReplicas = String(this.getNodeParameter("scaleReplicas", idx));
+					const scaleWaitForReady = this.getNodeParameter("scaleWaitForReady", idx, false) as boolean;
+					const scaleWaitTimeout = (this.getNodeParameter("scaleWaitTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+
+					if (!apiVersion) {
+						throw new NodeOperationError(
+							this.getNode(),
+							"API Version is required for the scale operation, e.g. apps/v1 for a Deployment!"
+						);
+					}
+					if (!kind) {
+						throw new NodeOperationError(this.getNode(), "Kind is required for the scale operation!");
+					}
+
+					data = {
+						...(await k8s.scaleResource(
+							apiVersion,
+							kind,
+							resourceName,
+							resourceNamespace,
+							scaleReplicas,
+							scaleWaitForReady,
+							scaleWaitTimeout
+						)),
+					};
+				} else if (operation === "rollout") {
+					const rolloutAction = this.getNodeParameter("rolloutAction", idx) as string;
+					const rolloutKind = this.getNodeParameter("rolloutKind", idx) as string;
+					const rolloutName = this.getNodeParameter("rolloutName", idx) as string;
+					const rolloutNamespace =
+						(this.getNodeParameter("rolloutNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+
+					if (rolloutAction === "history") {
+						data = await k8s.rolloutHistory(rolloutKind, rolloutName, rolloutNamespace);
+					} else {
+						const rolloutWait = this.getNodeParameter("rolloutWait", idx, true) as boolean;
+						const rolloutTimeout = (this.getNodeParameter("rolloutTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+
+						if (rolloutAction === "restart") {
+							data = await k8s.rolloutRestart(rolloutKind, rolloutName, rolloutNamespace, rolloutWait, rolloutTimeout);
+						} else if (rolloutAction === "undo") {
+							const rolloutToRevision = this.getNodeParameter("rolloutToRevision", idx, 0) as number;
+							data = await k8s.rolloutUndo(
+								rolloutKind,
+								rolloutName,
+								rolloutNamespace,
+								rolloutToRevision,
+								rolloutWait,
+								rolloutTimeout
+							);
+						} else {
+							data = await k8s.rolloutStatus(rolloutKind, rolloutName, rolloutNamespace, rolloutWait, rolloutTimeout);
+						}
+					}
+				} else if (operation === "setImage") {
+					const setImageKind = this.getNodeParameter("setImageKind", idx) as string;
+					const setImageName = this.getNodeParameter("setImageName", idx) as string;
+					const setImageNamespace =
+						(this.getNodeParameter("setImageNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const setImageContainer = this.getNodeParameter("setImageContainer", idx, "") as string;
+					const setImageImage = this.getNodeParameter("setImageImage", idx) as string;
+					const setImageWait = this.getNodeParameter("setImageWait", idx, false) as boolean;
+					const setImageTimeout = (this.getNodeParameter("setImageTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+
+					if (!setImageImage) {
+						throw new NodeOperationError(this.getNode(), "Image is required!");
+					}
+
+					data = await k8s.setImage(
+						setImageKind,
+						setImageName,
+						setImageNamespace,
+						setImageImage,
+						setImageContainer || undefined,
+						setImageWait,
+						setImageTimeout
 					);
 				} else if (operation === "wait") {
-					const waitApiVersion = this.getNodeParameter("waitApiVersion", idx) as string;
-					const waitKind = this.getNodeParameter("waitKind", idx) as string;
+					const waitApiVersion = (this.getNodeParameter("waitApiVersion", idx) as string) || "v1";
+					const waitKind = (this.getNodeParameter("waitKind", idx) as string) || "Pod";
 					const waitResourceName = this.getNodeParameter("waitResourceName", idx) as string;
 					const waitNamespace =
-						(this.getNodeParameter("waitNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("waitNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 					const waitCondition = this.getNodeParameter("waitCondition", idx) as string;
 					const waitTimeout = (this.getNodeParameter("waitTimeout", idx) as number) * 1000; // Convert to milliseconds
 
@@ -895,8 +2748,8 @@ export class Kubernetes implements INodeType {
 				} else if (operation === "logs") {
 					const logsPodSelectionMethod = this.getNodeParameter("logsPodSelectionMethod", idx, "podName") as string;
 					const logsNamespace =
-						(this.getNodeParameter("logsNamespace", idx) as string) ??
-						"default";
+						(this.getNodeParameter("logsNamespace", idx) as string) ||
+						k8s.defaultNamespace;
 					const logsContainer = this.getNodeParameter("logsContainer", idx) as string;
 					const logsFollow = this.getNodeParameter("logsFollow", idx) as boolean;
 					const logsTail = this.getNodeParameter("logsTail", idx) as number;
@@ -959,9 +2812,142 @@ export class Kubernetes implements INodeType {
 					}
 
 					data = logsResult;
+				} else if (operation === "exec") {
+					const execPodSelectionMethod = this.getNodeParameter("execPodSelectionMethod", idx, "podName") as string;
+					const execNamespace =
+						(this.getNodeParameter("execNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const execContainer = this.getNodeParameter("execContainer", idx) as string;
+					const execCommand = JSON.parse(
+						this.getNodeParameter("execCommand", idx) as any
+					);
+					const execStdin = this.getNodeParameter("execStdin", idx, "") as string;
+					const execTimeout = (this.getNodeParameter("execTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+
+					if (!Array.isArray(execCommand) || execCommand.length === 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							"Command must be a non-empty array!"
+						);
+					}
+
+					const target =
+						execPodSelectionMethod === "labelSelector"
+							? { labelSelector: this.getNodeParameter("execLabelSelector", idx) as string }
+							: { podName: this.getNodeParameter("execPodName", idx) as string };
+					const { podName, containerName } = await k8s.resolvePodContainer(
+						target,
+						execNamespace,
+						execContainer || undefined
+					);
+
+					data = {
+						...(await k8s.execInPod(
+							podName,
+							execNamespace,
+							containerName,
+							execCommand.map(String),
+							execStdin || undefined,
+							execTimeout
+						)),
+					};
+				} else if (operation === "download" || operation === "upload") {
+					const filePodSelectionMethod = this.getNodeParameter("filePodSelectionMethod", idx, "podName") as string;
+					const fileNamespace =
+						(this.getNodeParameter("fileNamespace", idx) as string) ||
+						k8s.defaultNamespace;
+					const fileContainer = this.getNodeParameter("fileContainer", idx) as string;
+					const fileTimeout = (this.getNodeParameter("fileTimeout", idx, 300) as number) * 1000; // Convert to milliseconds
+
+					const target =
+						filePodSelectionMethod === "labelSelector"
+							? { labelSelector: this.getNodeParameter("fileLabelSelector", idx) as string }
+							: { podName: this.getNodeParameter("filePodName", idx) as string };
+					const { podName, containerName } = await k8s.resolvePodContainer(
+						target,
+						fileNamespace,
+						fileContainer || undefined
+					);
+
+					if (operation === "download") {
+						const downloadPath = this.getNodeParameter("downloadPath", idx) as string;
+						const binaryPropertyName = this.getNodeParameter("downloadBinaryPropertyName", idx, "data") as string;
+						if (!downloadPath) {
+							throw new NodeOperationError(this.getNode(), "Source path is required!");
+						}
+
+						const files = await k8s.downloadFromPod(
+							podName,
+							fileNamespace,
+							containerName,
+							downloadPath,
+							fileTimeout
+						);
+						if (files.length === 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`No files found at "${downloadPath}" in pod "${podName}"`
+							);
+						}
+
+						// A single file keeps the field name, files of a directory get an index suffix
+						binary = {};
+						const fileList: IDataObject[] = [];
+						for (const [index, file] of files.entries()) {
+							const property = files.length === 1 ? binaryPropertyName : `${binaryPropertyName}_${index}`;
+							binary[property] = await this.helpers.prepareBinaryData(
+								file.content,
+								file.path.split("/").pop()
+							);
+							fileList.push({ path: file.path, size: file.content.length, binaryProperty: property });
+						}
+
+						data = {
+							podName,
+							namespace: fileNamespace,
+							container: containerName,
+							path: downloadPath,
+							files: fileList,
+						};
+					} else {
+						const uploadDirectory = this.getNodeParameter("uploadDirectory", idx) as string;
+						const binaryPropertyNames = (this.getNodeParameter("uploadBinaryPropertyName", idx, "data") as string)
+							.split(",")
+							.map((name) => name.trim())
+							.filter((name) => name !== "");
+						if (!uploadDirectory) {
+							throw new NodeOperationError(this.getNode(), "Destination directory is required!");
+						}
+
+						const files: ArchiveFile[] = [];
+						for (const property of binaryPropertyNames) {
+							const binaryData = this.helpers.assertBinaryData(idx, property);
+							files.push({
+								path: binaryData.fileName || property,
+								content: await this.helpers.getBinaryDataBuffer(idx, property),
+							});
+						}
+
+						await k8s.uploadToPod(
+							podName,
+							fileNamespace,
+							containerName,
+							uploadDirectory,
+							files,
+							fileTimeout
+						);
+
+						data = {
+							podName,
+							namespace: fileNamespace,
+							container: containerName,
+							directory: uploadDirectory,
+							files: files.map((file) => ({ path: file.path, size: file.content.length })),
+						};
+					}
 				} else if (operation === "create") {
 					const createResourceJson = this.getNodeParameter("createResourceJson", idx, "{}") as string;
-					const createNamespace = this.getNodeParameter("createNamespace", idx, "default") as string;
+					const createNamespace = this.getNodeParameter("createNamespace", idx, "") as string;
 					const createWatchCondition = this.getNodeParameter("createWatchCondition", idx, "none") as string;
 
 					// Only get timeout if watch condition is not "none"
@@ -975,100 +2961,110 @@ export class Kubernetes implements INodeType {
 						}
 					}
 
-					let resourceData: any;
-					try {
-						resourceData = JSON.parse(createResourceJson);
-					} catch (error) {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must be valid JSON!"
-						);
-					}
-
-					if (!resourceData || typeof resourceData !== 'object') {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must be a valid object!"
-						);
-					}
-
-					// Validate required fields
-					if (!resourceData.apiVersion) {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must contain 'apiVersion' field!"
-						);
-					}
+					const resources = ResourceHelper.sortByInstallOrder(
+						parameterHelper.parseManifests(createResourceJson)
+					);
+					const results: IDataObject[] = [];
 
-					if (!resourceData.kind) {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must contain 'kind' field!"
-						);
-					}
+					for (const resourceData of resources) {
+						try {
+							// Override namespace if provided
+							if (createNamespace) {
+								resourceData.metadata.namespace = createNamespace;
+							} else if (!resourceData.metadata.namespace) {
+								resourceData.metadata.namespace = k8s.defaultNamespace;
+							}
 
-					if (!resourceData.metadata) {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must contain 'metadata' field!"
-						);
-					}
+							// Create the resource
+							const createdResource = await k8s.createResource(
+								resourceData.apiVersion,
+								resourceData.kind,
+								resourceData.metadata.name,
+								resourceData.metadata.namespace,
+								resourceData
+							);
 
-					if (!resourceData.metadata.name) {
-						throw new NodeOperationError(
-							this.getNode(),
-							"Resource JSON must contain 'metadata.name' field!"
-						);
-					}
+							// If watch condition is specified, wait for it
+							if (createWatchCondition && createWatchCondition !== "none") {
+								const watchResult = await k8s.waitForResource(
+									resourceData.apiVersion,
+									resourceData.kind,
+									resourceData.metadata.name,
+									resourceData.metadata.namespace,
+									createWatchCondition,
+									createWatchTimeout
+								);
 
-					// Override namespace if provided
-					if (createNamespace && createNamespace !== "default") {
-						if (!resourceData.metadata) {
-							resourceData.metadata = {};
+								results.push({
+									success: true,
+									resource: createdResource,
+									watchResult: watchResult,
+									watchCondition: createWatchCondition,
+									conditionMet: true,
+								});
+							} else {
+								results.push({
+									success: true,
+									resource: createdResource,
+									watchCondition: "none",
+									conditionMet: false,
+								});
+							}
+						} catch (error) {
+							// A single manifest keeps failing the node, multi-document
+							// manifests report the failure on the object's own item
+							if (resources.length === 1) {
+								throw error;
+							}
+							results.push(ResourceHelper.buildFailureResult(resourceData, error));
 						}
-						resourceData.metadata.namespace = createNamespace;
-					} else if (!resourceData.metadata.namespace) {
-						resourceData.metadata.namespace = "default";
 					}
 
-					// Create the resource
-					const createdResource = await k8s.createResource(
-						resourceData.apiVersion,
-						resourceData.kind,
-						resourceData.metadata.name,
-						resourceData.metadata.namespace,
-						resourceData
+					data = results;
+				} else if (operation === "apply") {
+					const applyResourceJson = this.getNodeParameter("applyResourceJson", idx, "{}") as string;
+					const applyNamespace = this.getNodeParameter("applyNamespace", idx, "") as string;
+					const applyFieldManager = this.getNodeParameter("applyFieldManager", idx, "n8n") as string;
+					const applyForceConflicts = this.getNodeParameter("applyForceConflicts", idx, false) as boolean;
+
+					const resources = ResourceHelper.sortByInstallOrder(
+						parameterHelper.parseManifests(applyResourceJson)
 					);
+					const results: IDataObject[] = [];
 
-					// If watch condition is specified, wait for it
-					if (createWatchCondition && createWatchCondition !== "none") {
-						const watchResult = await k8s.waitForResource(
-							resourceData.apiVersion,
-							resourceData.kind,
-							resourceData.metadata.name,
-							resourceData.metadata.namespace,
-							createWatchCondition,
-							createWatchTimeout
-						);
+					for (const resourceData of resources) {
+						try {
+							// Override namespace if provided
+							if (applyNamespace) {
+								resourceData.metadata.namespace = applyNamespace;
+							} else if (!resourceData.metadata.namespace) {
+								resourceData.metadata.namespace = k8s.defaultNamespace;
+							}
 
-						data = {
-							resource: createdResource,
-							watchResult: watchResult,
-							watchCondition: createWatchCondition,
-							conditionMet: true,
-						};
-					} else {
-						data = {
-							resource: createdResource,
-							watchCondition: "none",
-							conditionMet: false,
-						};
+							results.push({
+								success: true,
+								...(await k8s.applyResource(
+									resourceData,
+									applyFieldManager || "n8n",
+									applyForceConflicts
+								)),
+							});
+						} catch (error) {
+							if (resources.length === 1) {
+								throw error;
+							}
+							results.push(ResourceHelper.buildFailureResult(resourceData, error));
+						}
 					}
+
+					data = results;
 				}
 			} catch (error) {
 				if (this.continueOnFail()) {
 					result.push({
 						json: {
+							// Run Pod and Run Job keep their output on the error item
+							...error.context?.result,
 							error: error.message,
 						},
 						pairedItem: {
@@ -1080,9 +3076,13 @@ export class Kubernetes implements INodeType {
 				throw error;
 			}
 
+			const executionData = this.helpers.returnJsonArray(data);
+			if (binary) {
+				executionData[0].binary = binary;
+			}
 			result.push(
 				...this.helpers.constructExecutionMetaData(
-					this.helpers.returnJsonArray(data),
+					executionData,
 					{ itemData: { item: idx } }
 				)
 			);
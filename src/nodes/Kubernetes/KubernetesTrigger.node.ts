@@ -0,0 +1,532 @@
+import {
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerFunctions,
+	ITriggerResponse,
+	NodeConnectionType,
+} from "n8n-workflow";
+
+import { kubernetesConnectionTest } from "./credentialTest";
+import {
+	getApiVersions,
+	getContexts,
+	getKinds,
+	getNamespaces,
+} from "./loadOptions";
+import { ResourceHelper, WorkloadFailure } from "./helpers";
+import { K8SClient } from "./utils";
+
+export class KubernetesTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: "Kubernetes Trigger",
+		name: "kubernetesTrigger",
+		icon: "file:k8s.svg",
+		group: ["trigger"],
+		version: 1,
+		subtitle: '={{$parameter["kind"]}}',
+		description: "Starts the workflow when Kubernetes resources change or workloads fail",
+		defaults: {
+			name: "Kubernetes Trigger",
+		},
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: "kubernetesCredentialsApi",
+				required: true,
+				testedBy: "kubernetesConnectionTest",
+			},
+		],
+		properties: [
+			{
+				displayName: "Context Name or ID",
+				name: "context",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getContexts",
+				},
+				default: "",
+				description: "Kubeconfig context to use instead of the one set on the credential. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Trigger On",
+				name: "mode",
+				type: "options",
+				options: [
+					{
+						name: "Resource Events",
+						value: "events",
+						description: "Resources of a kind are added, modified or deleted",
+					},
+					{
+						name: "Workload Failures",
+						value: "failures",
+						description: "Containers crash loop, are OOM killed or cannot pull their image, or Jobs fail",
+					},
+				],
+				default: "events",
+			},
+			{
+				displayName: "API Version Name or ID",
+				name: "apiVersion",
+				displayOptions: {
+					show: {
+						mode: ["events"],
+					},
+				},
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getApiVersions",
+				},
+				default: "",
+				description: "API version of the resources to watch, defaults to v1. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Kind Name or ID",
+				name: "kind",
+				displayOptions: {
+					show: {
+						mode: ["events"],
+					},
+				},
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getKinds",
+					loadOptionsDependsOn: ["apiVersion"],
+				},
+				default: "",
+				description: "Kind of the resources to watch, defaults to Pod. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Events",
+				name: "events",
+				displayOptions: {
+					show: {
+						mode: ["events"],
+					},
+				},
+				type: "multiOptions",
+				options: [
+					{
+						name: "Added",
+						value: "ADDED",
+					},
+					{
+						name: "Deleted",
+						value: "DELETED",
+					},
+					{
+						name: "Modified",
+						value: "MODIFIED",
+					},
+				],
+				default: ["ADDED", "MODIFIED", "DELETED"],
+				description: "Watch events that start the workflow",
+			},
+			{
+				displayName: "All Namespaces",
+				name: "allNamespaces",
+				type: "boolean",
+				default: false,
+				description: "Whether to watch the resources of every namespace",
+			},
+			{
+				displayName: "Namespace Name or ID",
+				name: "namespace",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getNamespaces",
+				},
+				default: "",
+				displayOptions: {
+					show: {
+						allNamespaces: [false],
+					},
+				},
+				description: "Namespace to watch, defaults to the namespace of the credential. Choose from the list, or specify an ID using an <a href=\"https://docs.n8n.io/code/expressions/\">expression</a>.",
+			},
+			{
+				displayName: "Label Selector",
+				name: "labelSelector",
+				type: "string",
+				default: "",
+				placeholder: "app=nginx,tier!=backend",
+				description: "Only watch resources whose labels match this selector",
+			},
+			{
+				displayName: "Field Selector",
+				name: "fieldSelector",
+				displayOptions: {
+					show: {
+						mode: ["events"],
+					},
+				},
+				type: "string",
+				default: "",
+				placeholder: "status.phase=Running",
+				description: "Only watch resources whose fields match this selector",
+			},
+			{
+				displayName: "Failures",
+				name: "failureReasons",
+				type: "multiOptions",
+				displayOptions: {
+					show: {
+						mode: ["failures"],
+					},
+				},
+				options: [
+					{
+						name: "CrashLoopBackOff",
+						value: "CrashLoopBackOff",
+					},
+					{
+						name: "ImagePullBackOff",
+						value: "ImagePullBackOff",
+					},
+					{
+						name: "Job Failed",
+						value: "JobFailed",
+					},
+					{
+						name: "OOMKilled",
+						value: "OOMKilled",
+					},
+				],
+				default: ["CrashLoopBackOff", "ImagePullBackOff", "JobFailed", "OOMKilled"],
+				description: "Failures that start the workflow",
+			},
+			{
+				displayName: "Log Lines",
+				name: "logLines",
+				type: "number",
+				displayOptions: {
+					show: {
+						mode: ["failures"],
+					},
+				},
+				default: 20,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: "Number of log lines of the failed container to include, 0 to skip logs",
+			},
+			{
+				displayName: "Options",
+				name: "options",
+				displayOptions: {
+					show: {
+						mode: ["events"],
+					},
+				},
+				type: "collection",
+				placeholder: "Add Option",
+				default: {},
+				options: [
+					{
+						displayName: "Debounce (Seconds)",
+						name: "debounce",
+						type: "number",
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: "Wait until a resource has had no events for this long and only emit its latest event. 0 emits every event.",
+					},
+					{
+						displayName: "Resume After Restart",
+						name: "resume",
+						type: "boolean",
+						default: true,
+						description: "Whether to continue from the last seen resourceVersion when the workflow is reactivated, instead of only reporting new events",
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: { kubernetesConnectionTest },
+		loadOptions: {
+			getApiVersions,
+			getContexts,
+			getKinds,
+			getNamespaces,
+		},
+	};
+
+	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
+		const credentials = await this.getCredentials("kubernetesCredentialsApi");
+		const k8s = new K8SClient(credentials, this, this.getNodeParameter("context", "") as string);
+
+		const mode = this.getNodeParameter("mode", "events") as string;
+		const allNamespaces = this.getNodeParameter("allNamespaces", false) as boolean;
+		const target: WatchTarget = {
+			namespace: allNamespaces
+				? ""
+				: (this.getNodeParameter("namespace", "") as string) || k8s.defaultNamespace,
+			allNamespaces,
+			labelSelector: this.getNodeParameter("labelSelector", "") as string,
+		};
+
+		let stopWatch: (() => void) | undefined;
+		const startWatch = async () => {
+			stopWatch = mode === "failures"
+				? await watchFailures.call(this, k8s, target)
+				: await watchEvents.call(this, k8s, target);
+		};
+
+		const closeFunction = async () => {
+			stopWatch?.();
+		};
+
+		if (this.getMode() === "manual") {
+			return {
+				closeFunction,
+				manualTriggerFunction: startWatch,
+			};
+		}
+
+		await startWatch();
+		return { closeFunction };
+	}
+}
+
+interface WatchTarget {
+	namespace: string;
+	allNamespaces: boolean;
+	labelSelector: string;
+}
+
+/**
+ * Emit added, modified and deleted events of a kind, optionally debounced per object
+ * @returns Function that stops the watch
+ */
+async function watchEvents(
+	this: ITriggerFunctions,
+	k8s: K8SClient,
+	target: WatchTarget
+): Promise<() => void> {
+	const apiVersion = (this.getNodeParameter("apiVersion") as string) || "v1";
+	const kind = (this.getNodeParameter("kind") as string) || "Pod";
+	const events = this.getNodeParameter("events", []) as string[];
+	const fieldSelector = this.getNodeParameter("fieldSelector", "") as string;
+	const options = this.getNodeParameter("options", {}) as IDataObject;
+	const debounce = ((options.debounce as number) || 0) * 1000;
+	const resume = options.resume !== false && this.getMode() !== "manual";
+
+	// Only resume from a stored resourceVersion that belongs to the same watch
+	const staticData = this.getWorkflowStaticData("node");
+	const watchKey = JSON.stringify([apiVersion, kind, target.namespace, target.labelSelector, fieldSelector]);
+	if (staticData.watchKey !== watchKey) {
+		staticData.watchKey = watchKey;
+		delete staticData.resourceVersion;
+	}
+
+	const emitEvent = (type: string, obj: any) => {
+		this.emit([
+			this.helpers.returnJsonArray([
+				{
+					type,
+					kind: obj.kind || kind,
+					name: obj.metadata?.name,
+					namespace: obj.metadata?.namespace,
+					resourceVersion: obj.metadata?.resourceVersion,
+					object: obj,
+				},
+			]),
+		]);
+	};
+
+	// Timer of the latest pending event per object while debouncing, and the resourceVersion
+	// received before the object's first pending event
+	const pending = new Map<string, { timer: NodeJS.Timeout; resumeFrom?: string }>();
+	let latestResourceVersion = staticData.resourceVersion as string | undefined;
+	let previousResourceVersion: string | undefined;
+
+	// Resuming must not skip events that are still waiting in the debounce buffer, so the stored
+	// resourceVersion stops before the oldest of them. Events emitted after it may be emitted again.
+	const persistResourceVersion = () => {
+		const oldestPending = pending.values().next().value;
+		const resourceVersion = oldestPending ? oldestPending.resumeFrom : latestResourceVersion;
+		if (resourceVersion) {
+			staticData.resourceVersion = resourceVersion;
+		} else {
+			delete staticData.resourceVersion;
+		}
+	};
+
+	const onEvent = (type: string, obj: any) => {
+		if (!events.includes(type)) {
+			return;
+		}
+		if (!debounce) {
+			emitEvent(type, obj);
+			return;
+		}
+		const key = obj.metadata?.uid || `${obj.metadata?.namespace}/${obj.metadata?.name}`;
+		const entry = pending.get(key);
+		clearTimeout(entry?.timer);
+		pending.set(key, {
+			timer: setTimeout(() => {
+				pending.delete(key);
+				emitEvent(type, obj);
+				persistResourceVersion();
+			}, debounce),
+			resumeFrom: entry ? entry.resumeFrom : previousResourceVersion,
+		});
+		persistResourceVersion();
+	};
+
+	const stop = await k8s.watchResources(
+		apiVersion,
+		kind,
+		target.namespace,
+		{
+			allNamespaces: target.allNamespaces,
+			labelSelector: target.labelSelector,
+			fieldSelector,
+			resourceVersion: resume ? (staticData.resourceVersion as string | undefined) : undefined,
+			// Called before the event carrying the new resourceVersion is handled
+			onResourceVersion: (resourceVersion) => {
+				previousResourceVersion = latestResourceVersion;
+				latestResourceVersion = resourceVersion;
+				persistResourceVersion();
+			},
+		},
+		onEvent
+	);
+
+	return () => {
+		stop();
+		for (const { timer } of pending.values()) {
+			clearTimeout(timer);
+		}
+		pending.clear();
+	};
+}
+
+/**
+ * Emit one item per container failure of a pod and per failed Job, with the last log lines.
+ * Failures that already exist when the trigger starts are not reported.
+ * @returns Function that stops the watches
+ */
+async function watchFailures(
+	this: ITriggerFunctions,
+	k8s: K8SClient,
+	target: WatchTarget
+): Promise<() => void> {
+	const reasons = this.getNodeParameter("failureReasons", []) as string[];
+	const logLines = this.getNodeParameter("logLines", 20) as number;
+
+	// Failures already reported, per object uid, so every crash is emitted once
+	const reported = new Map<string, Set<string>>();
+	const isNew = (obj: any, failure: WorkloadFailure): boolean => {
+		if (!reasons.includes(failure.reason)) {
+			return false;
+		}
+		const uid = obj.metadata?.uid;
+		const key = [failure.container, failure.reason, failure.restartCount].join("/");
+		const seen = reported.get(uid) || new Set<string>();
+		reported.set(uid, seen);
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	};
+
+	const emitFailure = async (kind: string, obj: any, failure: WorkloadFailure, pod?: any) => {
+		const container = failure.container || pod?.spec?.containers?.[0]?.name;
+		const logs = pod && container && logLines > 0
+			? await k8s.getFailureLogs(pod.metadata.name, pod.metadata.namespace, container, logLines, failure.previous)
+			: "";
+		this.emit([
+			this.helpers.returnJsonArray([
+				{
+					reason: failure.reason,
+					kind,
+					name: obj.metadata?.name,
+					namespace: obj.metadata?.namespace,
+					pod: pod?.metadata?.name,
+					container,
+					restartCount: failure.restartCount,
+					exitCode: failure.exitCode,
+					node: pod?.spec?.nodeName,
+					message: failure.message,
+					failedAt: failure.failedAt || new Date().toISOString(),
+					logs,
+				},
+			]),
+		]);
+	};
+
+	const onPodEvent = (type: string, pod: any) => {
+		if (type === "DELETED") {
+			reported.delete(pod.metadata?.uid);
+			return;
+		}
+		for (const failure of ResourceHelper.getPodFailures(pod, reasons)) {
+			if (isNew(pod, failure)) {
+				emitFailure("Pod", pod, failure, pod).catch((error) => this.emitError(error));
+			}
+		}
+	};
+
+	const onJobEvent = (type: string, job: any) => {
+		if (type === "DELETED") {
+			reported.delete(job.metadata?.uid);
+			return;
+		}
+		const failure = ResourceHelper.getJobFailure(job);
+		if (failure && isNew(job, failure)) {
+			k8s.getLatestFailedJobPod(job.metadata.name, job.metadata.namespace)
+				.catch((error) => {
+					// Still report the failure, just without pod details and logs
+					console.log(`[DEBUG] Could not find failed pods of Job ${job.metadata.name}: ${error.message}`);
+					return undefined;
+				})
+				.then((pod) => emitFailure("Job", job, failure, pod))
+				.catch((error) => this.emitError(error));
+		}
+	};
+
+	// Failures of the current objects count as reported, and the watch continues from the
+	// list they were read from, so nothing in between is missed
+	const watchOptions = { allNamespaces: target.allNamespaces, labelSelector: target.labelSelector };
+	const startWatch = async (
+		apiVersion: string,
+		kind: string,
+		getFailures: (obj: any) => WorkloadFailure[],
+		onEvent: (type: string, obj: any) => void
+	): Promise<() => void> => {
+		const list = await k8s.listResources(apiVersion, kind, target.namespace, watchOptions);
+		for (const obj of list.items || []) {
+			for (const failure of getFailures(obj)) {
+				isNew(obj, failure);
+			}
+		}
+		return k8s.watchResources(
+			apiVersion,
+			kind,
+			target.namespace,
+			{ ...watchOptions, resourceVersion: list.metadata?.resourceVersion },
+			onEvent
+		);
+	};
+
+	const stops: Array<() => void> = [];
+	if (reasons.some((reason) => reason !== "JobFailed")) {
+		stops.push(await startWatch("v1", "Pod", (pod) => ResourceHelper.getPodFailures(pod, reasons), onPodEvent));
+	}
+	if (reasons.includes("JobFailed")) {
+		const getJobFailures = (job: any) => {
+			const failure = ResourceHelper.getJobFailure(job);
+			return failure ? [failure] : [];
+		};
+		stops.push(await startWatch("batch/v1", "Job", getJobFailures, onJobEvent));
+	}
+
+	return () => stops.forEach((stop) => stop());
+}
@@ -1,24 +1,78 @@
 import * as k8s from "@kubernetes/client-node";
 import {
-  IExecuteFunctions,
   NodeOperationError,
 } from "n8n-workflow";
+import { NodeFunctions, ResourceInfo } from "./config";
 import { ResourceHelper, OutputHelper } from "./helpers";
 
+// Optional arguments passed through to the API server
+export interface ResourceOperationOptions {
+  fieldManager?: string;
+  force?: boolean;
+  patchStrategy?: k8s.PatchStrategy;
+  propagationPolicy?: string;
+  gracePeriodSeconds?: number;
+  labelSelector?: string;
+  fieldSelector?: string;
+  limit?: number;
+  continueToken?: string;
+}
+
+// Object API that sends patch bodies as-is. The stock patch() serializes the
+// body through the typed model, which cannot carry JSON Patch arrays and drops
+// strategic merge directives such as $patch. It builds on protected members of
+// KubernetesObjectApi, which is why package.json pins the client version.
+class PatchableObjectApi extends k8s.KubernetesObjectApi {
+  static makePatchableClient(kubeConfig: k8s.KubeConfig): PatchableObjectApi {
+    const client = kubeConfig.makeApiClient(PatchableObjectApi);
+    client.setDefaultNamespace(kubeConfig);
+    return client;
+  }
+
+  async patchBody(
+    spec: k8s.KubernetesObject,
+    body: unknown,
+    patchStrategy: k8s.PatchStrategy,
+    fieldManager?: string,
+    force?: boolean
+  ): Promise<k8s.KubernetesObject> {
+    const path = await this.specUriPath(spec, 'patch');
+    const requestContext = this.configuration.baseServer.makeRequestContext(path, k8s.HttpMethod.PATCH);
+    requestContext.setHeaderParam('Accept', 'application/json, */*;q=0.8');
+    requestContext.setHeaderParam('Content-Type', patchStrategy);
+    if (fieldManager !== undefined) {
+      requestContext.setQueryParam('fieldManager', fieldManager);
+    }
+    if (force !== undefined) {
+      requestContext.setQueryParam('force', String(force));
+    }
+    requestContext.setBody(JSON.stringify(body));
+    return this.requestPromise(requestContext);
+  }
+}
+
 export class ResourceManager {
+  private objectApi: PatchableObjectApi;
+  private discoveryCache: Record<string, k8s.V1APIResource[]> = {};
+  // API versions whose resources rejected a strategic merge patch
+  private mergePatchApiVersions = new Set<string>();
+
   constructor(
     private kubeConfig: k8s.KubeConfig,
-    private func: IExecuteFunctions
-  ) {}
+    private func: NodeFunctions
+  ) {
+    this.objectApi = PatchableObjectApi.makePatchableClient(kubeConfig);
+  }
 
   /**
-   * General resource operation method
-   * @param operation Operation type (create, read, update, patch, delete, list)
+   * General resource operation method, works for any built-in or custom resource kind
+   * @param operation Operation type (create, get, list, patch, replace, delete)
    * @param apiVersion API version
    * @param kind Resource type
-   * @param name Resource name (optional, for get, update, patch, delete)
+   * @param name Resource name (optional, for get, replace, patch, delete)
    * @param namespace Namespace
-   * @param data Resource data (optional, for create, update, patch)
+   * @param data Resource data (optional, for create, replace, patch)
+   * @param options Additional API options
    * @returns Operation result
    */
   async performResourceOperation(
@@ -27,46 +81,379 @@ export class ResourceManager {
     kind: string,
     name?: string,
     namespace?: string,
-    data?: any
+    data?: any,
+    options: ResourceOperationOptions = {}
   ): Promise<any> {
+    let resource: ResourceInfo | undefined;
     try {
       console.log(`[DEBUG] Performing ${operation} operation on ${apiVersion}/${kind}`, {
         name,
         namespace,
-        hasData: !!data
+        hasData: !!data,
+        options
       });
 
-      const { config } = ResourceHelper.getResourceConfig(apiVersion, kind);
-      const apiClient = config.apiClientFactory(this.kubeConfig);
+      resource = await this.resolveResource(apiVersion, kind);
 
-      // Build method name
-      const methodName = this.buildMethodName(operation, kind, !!namespace);
-
-      if (!apiClient[methodName]) {
-        throw new NodeOperationError(
-          this.func.getNode(),
-          `Method ${methodName} not found for ${apiVersion}/${kind}`
-        );
+      // Cluster-scoped resources never carry a namespace
+      const targetNamespace = resource.namespaced ? namespace : undefined;
+      const metadata = { ...(data?.metadata || {}) };
+      if (name) {
+        metadata.name = name;
+      }
+      if (targetNamespace) {
+        metadata.namespace = targetNamespace;
+      } else if (!resource.namespaced) {
+        delete metadata.namespace;
       }
 
-      // Build parameters
-      const params = this.buildMethodParams(operation, name, namespace, data);
+      const spec = {
+        ...(data && !Array.isArray(data) ? data : {}),
+        apiVersion: resource.apiVersion,
+        kind: resource.kind,
+        metadata
+      };
 
-      console.log(`[DEBUG] Calling ${methodName} with params:`, params);
+      let result: any;
+      switch (operation) {
+        case 'create':
+          result = await this.objectApi.create(spec, undefined, undefined, options.fieldManager);
+          break;
 
-      // Execute API call
-      const result = await apiClient[methodName](params);
+        case 'get':
+          result = await this.objectApi.read(spec);
+          break;
+
+        case 'list':
+          result = await this.listResources(resource, targetNamespace, options);
+          break;
+
+        case 'patch': {
+          // JSON Patch bodies are operation arrays and carry no object identity
+          const body = Array.isArray(data) ? data : spec;
+          // An explicit strategic merge patch of a custom resource is left to the API server to reject (415)
+          result = options.patchStrategy
+            ? await this.objectApi.patchBody(spec, body, options.patchStrategy, options.fieldManager, options.force)
+            : await this.patchWithDefaultStrategy(resource, spec, body, options);
+          break;
+        }
+
+        case 'replace':
+          result = await this.objectApi.replace(spec, undefined, undefined, options.fieldManager);
+          break;
+
+        case 'delete':
+          result = await this.objectApi.delete(
+            spec,
+            undefined,
+            undefined,
+            options.gracePeriodSeconds,
+            undefined,
+            options.propagationPolicy
+          );
+          break;
+
+        default:
+          throw new Error(`Unsupported operation: ${operation}`);
+      }
 
       console.log(`[DEBUG] ${operation} operation completed successfully`);
       return result;
 
     } catch (error) {
+      if (error instanceof NodeOperationError) {
+        throw error;
+      }
       console.error(`[DEBUG] ${operation} operation failed:`, error);
+      const target = name ? `${kind.toLowerCase()} "${name}"` : kind.toLowerCase();
+      const location = resource && !resource.namespaced ? '' : ` in namespace "${namespace}"`;
+      const nodeError = new NodeOperationError(
+        this.func.getNode(),
+        `Failed to ${operation} ${target}${location}: ${error.message}`
+      );
+      // Keep the HTTP status so callers can react to 404/409 responses
+      nodeError.context.statusCode = error.code;
+      throw nodeError;
+    }
+  }
+
+  /**
+   * Patch with a strategic merge patch, falling back to a merge patch for resources
+   * that do not support it. Whether a resource is backed by a CRD cannot be told from
+   * its group name, so the 415 response of the API server decides.
+   * @param resource Resource information from discovery
+   * @param spec Object identity
+   * @param body Patch body
+   * @param options Additional API options
+   * @returns Patched object
+   */
+  private async patchWithDefaultStrategy(
+    resource: ResourceInfo,
+    spec: k8s.KubernetesObject,
+    body: unknown,
+    options: ResourceOperationOptions
+  ): Promise<k8s.KubernetesObject> {
+    if (!this.mergePatchApiVersions.has(resource.apiVersion)) {
+      try {
+        return await this.objectApi.patchBody(
+          spec,
+          body,
+          k8s.PatchStrategy.StrategicMergePatch,
+          options.fieldManager,
+          options.force
+        );
+      } catch (error) {
+        if (error.code !== 415) {
+          throw error;
+        }
+        console.log(`[DEBUG] ${resource.apiVersion} does not support strategic merge patch, using a merge patch`);
+        this.mergePatchApiVersions.add(resource.apiVersion);
+      }
+    }
+    return this.objectApi.patchBody(
+      spec,
+      body,
+      k8s.PatchStrategy.MergePatch,
+      options.fieldManager,
+      options.force
+    );
+  }
+
+  /**
+   * Read the scale subresource of a resource, or set its replica count
+   * @param apiVersion API version
+   * @param kind Resource type
+   * @param name Resource name
+   * @param namespace Namespace
+   * @param replicas New replica count, omit to only read the current scale
+   * @returns Scale object
+   */
+  async scaleResource(
+    apiVersion: string,
+    kind: string,
+    name: string,
+    namespace: string,
+    replicas?: number
+  ): Promise<any> {
+    const operation = replicas === undefined ? 'read scale of' : 'scale';
+    let resource: ResourceInfo | undefined;
+    try {
+      console.log(`[DEBUG] Performing ${operation} on ${apiVersion}/${kind}`, { name, namespace, replicas });
+
+      resource = await this.resolveResource(apiVersion, kind);
+
+      // 'add' also replaces an existing value and works when replicas is omitted (0)
+      const body = [{ op: 'add', path: '/spec/replicas', value: replicas }];
+
+      if (resource.group === '') {
+        if (resource.kind !== 'ReplicationController') {
+          throw new Error(`${resource.kind} does not support scaling`);
+        }
+        const coreApi = this.kubeConfig.makeApiClient(k8s.CoreV1Api);
+        return replicas === undefined
+          ? await coreApi.readNamespacedReplicationControllerScale({ name, namespace })
+          : await coreApi.patchNamespacedReplicationControllerScale({ name, namespace, body });
+      }
+
+      const customApi = this.kubeConfig.makeApiClient(k8s.CustomObjectsApi);
+      const params = { group: resource.group, version: resource.version, plural: resource.plural, name };
+      if (!resource.namespaced) {
+        return replicas === undefined
+          ? await customApi.getClusterCustomObjectScale(params)
+          : await customApi.patchClusterCustomObjectScale({ ...params, body });
+      }
+      return replicas === undefined
+        ? await customApi.getNamespacedCustomObjectScale({ ...params, namespace })
+        : await customApi.patchNamespacedCustomObjectScale({ ...params, namespace, body });
+
+    } catch (error) {
+      console.error(`[DEBUG] ${operation} failed:`, error);
+      const location = resource && !resource.namespaced ? '' : ` in namespace "${namespace}"`;
+      const nodeError = new NodeOperationError(
+        this.func.getNode(),
+        `Failed to ${operation} ${kind.toLowerCase()} "${name}"${location}: ${error.message}`
+      );
+      nodeError.context.statusCode = error.code;
+      throw nodeError;
+    }
+  }
+
+  /**
+   * List one page of resources, in a single namespace or across all namespaces
+   * @param resource Resource information from discovery
+   * @param namespace Namespace, undefined for all namespaces or cluster-scoped resources
+   * @param options Selectors and pagination options
+   * @returns List object
+   */
+  private async listResources(
+    resource: ResourceInfo,
+    namespace: string | undefined,
+    options: ResourceOperationOptions
+  ): Promise<any> {
+    if (resource.group === '') {
+      return this.objectApi.list(
+        resource.apiVersion,
+        resource.kind,
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        options.fieldSelector,
+        options.labelSelector,
+        options.limit,
+        options.continueToken
+      );
+    }
+
+    // The generic object client drops the continue token of lists it has no
+    // model for, so named groups are listed through the raw custom objects API
+    const customObjectsApi = this.kubeConfig.makeApiClient(k8s.CustomObjectsApi);
+    const params = {
+      group: resource.group,
+      version: resource.version,
+      plural: resource.plural,
+      fieldSelector: options.fieldSelector,
+      labelSelector: options.labelSelector,
+      limit: options.limit,
+      _continue: options.continueToken
+    };
+
+    if (namespace) {
+      return customObjectsApi.listNamespacedCustomObject({ ...params, namespace });
+    }
+    return customObjectsApi.listClusterCustomObject(params);
+  }
+
+  /**
+   * Read a resource, returning undefined instead of failing when it does not exist
+   * @param apiVersion API version
+   * @param kind Resource type
+   * @param name Resource name
+   * @param namespace Namespace
+   * @returns Resource or undefined
+   */
+  async readResourceIfExists(
+    apiVersion: string,
+    kind: string,
+    name: string,
+    namespace?: string
+  ): Promise<any> {
+    try {
+      return await this.performResourceOperation('get', apiVersion, kind, name, namespace);
+    } catch (error) {
+      if (error.context?.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve plural name, scope and verbs of a resource kind from the API server
+   * @param apiVersion API version
+   * @param kind Resource kind, matched case-insensitively (plural and short names are accepted too)
+   * @returns Resource information
+   */
+  async resolveResource(apiVersion: string, kind: string): Promise<ResourceInfo> {
+    const resources = await this.getApiResources(apiVersion);
+    const kindLower = kind.toLowerCase();
+
+    const resource =
+      resources.find((r) => r.kind.toLowerCase() === kindLower) ??
+      resources.find(
+        (r) =>
+          r.name === kindLower ||
+          r.singularName === kindLower ||
+          (r.shortNames || []).includes(kindLower)
+      );
+
+    if (!resource) {
       throw new NodeOperationError(
         this.func.getNode(),
-        `Failed to ${operation} ${kind} "${name}" in namespace "${namespace}": ${error.message}`
+        `Unsupported resource type: ${kind} for API version: ${apiVersion}`
       );
     }
+
+    const { group, version } = ResourceHelper.parseApiVersion(apiVersion);
+    return {
+      apiVersion,
+      group,
+      version,
+      kind: resource.kind,
+      plural: resource.name,
+      namespaced: resource.namespaced,
+      verbs: resource.verbs || []
+    };
+  }
+
+  /**
+   * Get the resources served by an API group version, excluding subresources
+   * @param apiVersion API version
+   * @returns API resources
+   */
+  async getApiResources(apiVersion: string): Promise<k8s.V1APIResource[]> {
+    if (this.discoveryCache[apiVersion]) {
+      return this.discoveryCache[apiVersion];
+    }
+
+    console.log(`[DEBUG] Discovering resources for API version ${apiVersion}`);
+
+    let resourceList: k8s.V1APIResourceList;
+    try {
+      const { group, version } = ResourceHelper.parseApiVersion(apiVersion);
+      if (group === '') {
+        resourceList = await this.kubeConfig.makeApiClient(k8s.CoreV1Api).getAPIResources();
+      } else {
+        resourceList = await this.kubeConfig
+          .makeApiClient(k8s.CustomObjectsApi)
+          .getAPIResources({ group, version });
+      }
+    } catch (error) {
+      console.error(`[DEBUG] Discovery failed for ${apiVersion}:`, error);
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `Unsupported API version: ${apiVersion}: ${error.message}`
+      );
+    }
+
+    this.discoveryCache[apiVersion] = (resourceList.resources || []).filter(
+      (r) => !r.name.includes('/')
+    );
+    return this.discoveryCache[apiVersion];
+  }
+
+  /**
+   * Get every API version served by the cluster, core "v1" first
+   * @returns API versions in group/version form
+   */
+  async getApiVersions(): Promise<string[]> {
+    console.log(`[DEBUG] Discovering API versions`);
+
+    try {
+      const groupList = await this.kubeConfig.makeApiClient(k8s.ApisApi).getAPIVersions();
+      const versions = groupList.groups.flatMap((group) =>
+        group.versions.map((version) => version.groupVersion)
+      );
+      return ['v1', ...versions.sort()];
+    } catch (error) {
+      console.error(`[DEBUG] API version discovery failed:`, error);
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `Failed to discover API versions: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Build the collection path used to watch a resource kind
+   * @param apiVersion API version
+   * @param kind Resource type
+   * @param namespace Namespace
+   * @returns Watch path
+   */
+  async buildWatchPath(apiVersion: string, kind: string, namespace: string): Promise<string> {
+    const resource = await this.resolveResource(apiVersion, kind);
+    return ResourceHelper.buildWatchPath(resource, namespace);
   }
 
   /**
@@ -88,6 +475,7 @@ export class ResourceManager {
     timeout: number = 300000
   ): Promise<any> {
     const watch = new k8s.Watch(this.kubeConfig);
+    const watchPath = await this.buildWatchPath(apiVersion, kind, namespace);
 
     console.log(`[DEBUG] Starting wait for ${kind}/${name} condition: ${condition}`);
 
@@ -116,8 +504,6 @@ export class ResourceManager {
       }, timeout);
 
       try {
-        const watchPath = ResourceHelper.buildWatchPath(apiVersion, kind, namespace);
-
         watchReq = await watch.watch(
           watchPath,
           {},
@@ -168,153 +554,6 @@ export class ResourceManager {
     });
   }
 
-  /**
-   * Handle custom resource operations
-   * @param operation Operation type
-   * @param apiVersion API version
-   * @param kind Resource type
-   * @param name Resource name
-   * @param namespace Namespace
-   * @param data Resource data
-   * @returns Operation result
-   */
-  async handleCustomResource(
-    operation: string,
-    apiVersion: string,
-    kind: string,
-    name?: string,
-    namespace?: string,
-    data?: any
-  ): Promise<any> {
-    const customObjectsApi = this.kubeConfig.makeApiClient(k8s.CustomObjectsApi);
-    const [group, version] = apiVersion.split('/');
-    const plural = `${kind.toLowerCase()}s`;
-
-    console.log(`[DEBUG] Handling custom resource ${operation}:`, {
-      group,
-      version,
-      plural,
-      name,
-      namespace
-    });
-
-    try {
-      switch (operation) {
-        case 'create':
-          return await customObjectsApi.createNamespacedCustomObject({
-            group,
-            version,
-            namespace: namespace!,
-            plural,
-            body: data
-          });
-
-        case 'get':
-          return await customObjectsApi.getNamespacedCustomObject({
-            group,
-            version,
-            namespace: namespace!,
-            plural,
-            name: name!
-          });
-
-        case 'list':
-          return await customObjectsApi.listNamespacedCustomObject({
-            group,
-            version,
-            namespace: namespace!,
-            plural
-          });
-
-        case 'patch':
-          return await customObjectsApi.patchNamespacedCustomObject({
-            group,
-            version,
-            namespace: namespace!,
-            plural,
-            name: name!,
-            body: data
-          });
-
-        case 'delete':
-          return await customObjectsApi.deleteNamespacedCustomObject({
-            group,
-            version,
-            namespace: namespace!,
-            plural,
-            name: name!
-          });
-
-        default:
-          throw new Error(`Unsupported operation: ${operation}`);
-      }
-    } catch (error) {
-      console.error(`[DEBUG] Custom resource ${operation} failed:`, error);
-      throw new NodeOperationError(
-        this.func.getNode(),
-        `Failed to ${operation} custom resource "${name}" in namespace "${namespace}": ${error.message}`
-      );
-    }
-  }
-
-  /**
-   * Build API method name
-   * @param operation Operation type
-   * @param kind Resource type
-   * @param isNamespaced Whether the resource is namespaced
-   * @returns Method name
-   */
-  private buildMethodName(operation: string, kind: string, isNamespaced: boolean): string {
-    const operationMap: { [key: string]: string } = {
-      'create': 'create',
-      'get': 'read',
-      'list': 'list',
-      'patch': 'patch',
-      'delete': 'delete'
-    };
-
-    const op = operationMap[operation];
-    if (!op) {
-      throw new Error(`Unsupported operation: ${operation}`);
-    }
-
-    const namespacePrefix = isNamespaced ? 'Namespaced' : '';
-    const kindPascal = kind.charAt(0).toUpperCase() + kind.slice(1).toLowerCase();
-
-    return `${op}${namespacePrefix}${kindPascal}`;
-  }
-
-  /**
-   * Build method parameters
-   * @param operation Operation type
-   * @param name Resource name
-   * @param namespace Namespace
-   * @param data Resource data
-   * @returns Parameter object
-   */
-  private buildMethodParams(
-    operation: string,
-    name?: string,
-    namespace?: string,
-    data?: any
-  ): any {
-    const params: any = {};
-
-    if (name) {
-      params.name = name;
-    }
-
-    if (namespace) {
-      params.namespace = namespace;
-    }
-
-    if (data && (operation === 'create' || operation === 'patch')) {
-      params.body = data;
-    }
-
-    return params;
-  }
-
   /**
    * Check resource condition
    * @param obj Resource object
@@ -326,6 +565,9 @@ export class ResourceManager {
     const kindLower = kind.toLowerCase();
 
     switch (condition) {
+      case 'RolledOut':
+        return ResourceHelper.getRolloutStatus(obj).done;
+
       case 'Ready':
         if (kindLower === 'pod') {
           const podConditions = obj.status?.conditions || [];
@@ -1,122 +1,77 @@
-import * as k8s from "@kubernetes/client-node";
+import type { IExecuteFunctions, ILoadOptionsFunctions, ITriggerFunctions } from 'n8n-workflow';
 
-// Resource type configuration
-export interface ResourceConfig {
+// n8n function contexts the Kubernetes client can be created from
+export type NodeFunctions = IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions;
+
+// Resource metadata resolved through API discovery
+export interface ResourceInfo {
   apiVersion: string;
-  apiClientFactory: (config: k8s.KubeConfig) => any;
-  operations: {
-    [key: string]: {
-      method: string;
-      requiresName?: boolean;
-      requiresNamespace?: boolean;
-    };
-  };
+  group: string;
+  version: string;
+  kind: string;
+  plural: string;
+  namespaced: boolean;
+  verbs: string[];
 }
 
-// Resource type mapping configuration
-export const RESOURCE_CONFIGS: Record<string, ResourceConfig> = {
-  // Core API (v1)
-  'v1': {
-    apiVersion: 'v1',
-    apiClientFactory: (config: k8s.KubeConfig) => config.makeApiClient(k8s.CoreV1Api),
-    operations: {
-      'pod': {
-        method: 'Pod',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'service': {
-        method: 'Service',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'configmap': {
-        method: 'ConfigMap',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'secret': {
-        method: 'Secret',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'persistentvolumeclaim': {
-        method: 'PersistentVolumeClaim',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'namespace': {
-        method: 'Namespace',
-        requiresName: true,
-        requiresNamespace: false
-      }
-    }
-  },
+// Well-known cluster-scoped kinds, used to hide namespace fields in the UI.
+// The actual scope is always resolved through API discovery.
+export const CLUSTER_SCOPED_KINDS: string[] = [
+  'APIService',
+  'CSIDriver',
+  'CSINode',
+  'CertificateSigningRequest',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'CustomResourceDefinition',
+  'IngressClass',
+  'MutatingWebhookConfiguration',
+  'Namespace',
+  'Node',
+  'PersistentVolume',
+  'PriorityClass',
+  'RuntimeClass',
+  'StorageClass',
+  'ValidatingWebhookConfiguration',
+  'VolumeAttachment'
+];
 
-  // Apps API (apps/v1)
-  'apps/v1': {
-    apiVersion: 'apps/v1',
-    apiClientFactory: (config: k8s.KubeConfig) => config.makeApiClient(k8s.AppsV1Api),
-    operations: {
-      'deployment': {
-        method: 'Deployment',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'replicaset': {
-        method: 'ReplicaSet',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'daemonset': {
-        method: 'DaemonSet',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'statefulset': {
-        method: 'StatefulSet',
-        requiresName: true,
-        requiresNamespace: true
-      }
-    }
-  },
-
-  // Batch API (batch/v1)
-  'batch/v1': {
-    apiVersion: 'batch/v1',
-    apiClientFactory: (config: k8s.KubeConfig) => config.makeApiClient(k8s.BatchV1Api),
-    operations: {
-      'job': {
-        method: 'Job',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'cronjob': {
-        method: 'CronJob',
-        requiresName: true,
-        requiresNamespace: true
-      }
-    }
-  },
-
-  // Networking API (networking.k8s.io/v1)
-  'networking.k8s.io/v1': {
-    apiVersion: 'networking.k8s.io/v1',
-    apiClientFactory: (config: k8s.KubeConfig) => config.makeApiClient(k8s.NetworkingV1Api),
-    operations: {
-      'ingress': {
-        method: 'Ingress',
-        requiresName: true,
-        requiresNamespace: true
-      },
-      'networkpolicy': {
-        method: 'NetworkPolicy',
-        requiresName: true,
-        requiresNamespace: true
-      }
-    }
-  }
-};
+// Order in which kinds are created from multi-document manifests, so that
+// Namespaces, CRDs and the objects others depend on exist first
+export const INSTALL_ORDER: string[] = [
+  'Namespace',
+  'CustomResourceDefinition',
+  'NetworkPolicy',
+  'ResourceQuota',
+  'LimitRange',
+  'PriorityClass',
+  'PodDisruptionBudget',
+  'ServiceAccount',
+  'Secret',
+  'ConfigMap',
+  'StorageClass',
+  'PersistentVolume',
+  'PersistentVolumeClaim',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'Role',
+  'RoleBinding',
+  'Service',
+  'DaemonSet',
+  'Pod',
+  'ReplicationController',
+  'ReplicaSet',
+  'Deployment',
+  'HorizontalPodAutoscaler',
+  'StatefulSet',
+  'Job',
+  'CronJob',
+  'IngressClass',
+  'Ingress',
+  'APIService',
+  'MutatingWebhookConfiguration',
+  'ValidatingWebhookConfiguration'
+];
 
 // Operation type mapping
 export const OPERATION_TYPES = {
@@ -134,7 +89,8 @@ export const WAIT_CONDITIONS = {
   AVAILABLE: 'Available',
   COMPLETE: 'Complete',
   FAILED: 'Failed',
-  SUCCEEDED: 'Succeeded'
+  SUCCEEDED: 'Succeeded',
+  ROLLED_OUT: 'RolledOut'
 } as const;
 
 // Parameter configuration mapping
@@ -153,7 +109,13 @@ export const PARAMETER_CONFIGS: ParameterConfig = {
   run: {
     image: { required: true, type: 'string' },
     command: { required: true, type: 'json' },
-    namespace: { required: false, type: 'string', default: 'default' }
+    namespace: { required: false, type: 'string', default: 'default' },
+    podOptions: { required: false, type: 'object', default: {} },
+    inputMode: { required: false, type: 'string', default: 'none' },
+    inputSource: { required: false, type: 'string', default: 'json' },
+    inputBinaryPropertyName: { required: false, type: 'string', default: 'data' },
+    inputFilePath: { required: false, type: 'string', default: '/n8n/input' },
+    failOnNonZeroExit: { required: false, type: 'boolean', default: false }
   },
   createJob: {
     jobName: { required: true, type: 'string' },
@@ -161,7 +123,15 @@ export const PARAMETER_CONFIGS: ParameterConfig = {
     jobCommand: { required: true, type: 'json' },
     jobNamespace: { required: false, type: 'string', default: 'default' },
     restartPolicy: { required: false, type: 'string', default: 'Never' },
-    cleanupJob: { required: false, type: 'boolean', default: true }
+    cleanupJob: { required: false, type: 'boolean', default: true },
+    includeAllPods: { required: false, type: 'boolean', default: false },
+    podOptions: { required: false, type: 'object', default: {} },
+    jobOptions: { required: false, type: 'object', default: {} },
+    inputMode: { required: false, type: 'string', default: 'none' },
+    inputSource: { required: false, type: 'string', default: 'json' },
+    inputBinaryPropertyName: { required: false, type: 'string', default: 'data' },
+    inputFilePath: { required: false, type: 'string', default: '/n8n/input' },
+    failOnNonZeroExit: { required: false, type: 'boolean', default: false }
   },
   triggerCronJob: {
     cronJobName: { required: true, type: 'string' },
@@ -174,7 +144,31 @@ export const PARAMETER_CONFIGS: ParameterConfig = {
     kind: { required: true, type: 'string' },
     resourceName: { required: true, type: 'string' },
     resourceNamespace: { required: false, type: 'string', default: 'default' },
-    patchData: { required: true, type: 'json' }
+    patchData: { required: true, type: 'yaml' },
+    patchType: { required: false, type: 'string', default: 'default' }
+  },
+  update: {
+    apiVersion: { required: true, type: 'string' },
+    kind: { required: true, type: 'string' },
+    resourceName: { required: true, type: 'string' },
+    resourceNamespace: { required: false, type: 'string', default: '' },
+    updateMode: { required: false, type: 'string', default: 'replace' },
+    updateData: { required: true, type: 'yaml' },
+    updateMaxRetries: { required: false, type: 'number', default: 3 }
+  },
+  describe: {
+    apiVersion: { required: true, type: 'string' },
+    kind: { required: true, type: 'string' },
+    resourceName: { required: true, type: 'string' },
+    resourceNamespace: { required: false, type: 'string', default: '' }
+  },
+  events: {
+    eventsNamespace: { required: false, type: 'string', default: '' },
+    eventsAllNamespaces: { required: false, type: 'boolean', default: false },
+    eventsInvolvedKind: { required: false, type: 'string', default: '' },
+    eventsInvolvedName: { required: false, type: 'string', default: '' },
+    eventsType: { required: false, type: 'string', default: '' },
+    eventsSinceTime: { required: false, type: 'string', default: '' }
   },
   get: {
     apiVersion: { required: true, type: 'string' },
@@ -185,7 +179,49 @@ export const PARAMETER_CONFIGS: ParameterConfig = {
   list: {
     apiVersion: { required: true, type: 'string' },
     kind: { required: true, type: 'string' },
-    resourceNamespace: { required: false, type: 'string', default: 'default' }
+    resourceNamespace: { required: false, type: 'string', default: 'default' },
+    listAllNamespaces: { required: false, type: 'boolean', default: false },
+    listFilters: { required: false, type: 'object', default: {} },
+    listReturnAll: { required: false, type: 'boolean', default: true },
+    listLimit: { required: false, type: 'number', default: 50 },
+    listSplitItems: { required: false, type: 'boolean', default: false }
+  },
+  delete: {
+    apiVersion: { required: true, type: 'string' },
+    kind: { required: true, type: 'string' },
+    resourceName: { required: true, type: 'string' },
+    resourceNamespace: { required: false, type: 'string', default: 'default' },
+    deletePropagationPolicy: { required: false, type: 'string', default: 'Background' },
+    deleteOptions: { required: false, type: 'object', default: {} },
+    deleteWaitForDeletion: { required: false, type: 'boolean', default: false },
+    deleteWaitTimeout: { required: false, type: 'number', default: 300 }
+  },
+  rollout: {
+    rolloutAction: { required: true, type: 'string', default: 'status' },
+    rolloutKind: { required: true, type: 'string', default: 'Deployment' },
+    rolloutName: { required: true, type: 'string' },
+    rolloutNamespace: { required: false, type: 'string', default: '' },
+    rolloutToRevision: { required: false, type: 'number', default: 0 },
+    rolloutWait: { required: false, type: 'boolean', default: true },
+    rolloutTimeout: { required: false, type: 'number', default: 300 }
+  },
+  setImage: {
+    setImageKind: { required: true, type: 'string', default: 'Deployment' },
+    setImageName: { required: true, type: 'string' },
+    setImageNamespace: { required: false, type: 'string', default: '' },
+    setImageContainer: { required: false, type: 'string' },
+    setImageImage: { required: true, type: 'string' },
+    setImageWait: { required: false, type: 'boolean', default: false },
+    setImageTimeout: { required: false, type: 'number', default: 300 }
+  },
+  scale: {
+    apiVersion: { required: true, type: 'string' },
+    kind: { required: true, type: 'string' },
+    resourceName: { required: true, type: 'string' },
+    resourceNamespace: { required: false, type: 'string', default: '' },
+    scaleReplicas: { required: true, type: 'string', default: '1' },
+    scaleWaitForReady: { required: false, type: 'boolean', default: false },
+    scaleWaitTimeout: { required: false, type: 'number', default: 300 }
   },
   wait: {
     waitApiVersion: { required: true, type: 'string' },
@@ -205,10 +241,46 @@ export const PARAMETER_CONFIGS: ParameterConfig = {
     logsTail: { required: false, type: 'number', default: 100 },
     logsSinceTime: { required: false, type: 'string' }
   },
+  exec: {
+    execPodSelectionMethod: { required: false, type: 'string', default: 'podName' },
+    execPodName: { required: false, type: 'string' },
+    execLabelSelector: { required: false, type: 'string' },
+    execNamespace: { required: false, type: 'string', default: '' },
+    execContainer: { required: false, type: 'string' },
+    execCommand: { required: true, type: 'json' },
+    execStdin: { required: false, type: 'string' },
+    execTimeout: { required: false, type: 'number', default: 300 }
+  },
+  download: {
+    filePodSelectionMethod: { required: false, type: 'string', default: 'podName' },
+    filePodName: { required: false, type: 'string' },
+    fileLabelSelector: { required: false, type: 'string' },
+    fileNamespace: { required: false, type: 'string', default: '' },
+    fileContainer: { required: false, type: 'string' },
+    downloadPath: { required: true, type: 'string' },
+    downloadBinaryPropertyName: { required: false, type: 'string', default: 'data' },
+    fileTimeout: { required: false, type: 'number', default: 300 }
+  },
+  upload: {
+    filePodSelectionMethod: { required: false, type: 'string', default: 'podName' },
+    filePodName: { required: false, type: 'string' },
+    fileLabelSelector: { required: false, type: 'string' },
+    fileNamespace: { required: false, type: 'string', default: '' },
+    fileContainer: { required: false, type: 'string' },
+    uploadBinaryPropertyName: { required: false, type: 'string', default: 'data' },
+    uploadDirectory: { required: true, type: 'string' },
+    fileTimeout: { required: false, type: 'number', default: 300 }
+  },
   create: {
-    createResourceJson: { required: true, type: 'json' },
+    createResourceJson: { required: true, type: 'manifest' },
     createNamespace: { required: false, type: 'string', default: 'default' },
     createWatchCondition: { required: false, type: 'string', default: 'none' },
     createWatchTimeout: { required: false, type: 'number', default: 300 }
+  },
+  apply: {
+    applyResourceJson: { required: true, type: 'manifest' },
+    applyNamespace: { required: false, type: 'string', default: 'default' },
+    applyFieldManager: { required: false, type: 'string', default: 'n8n' },
+    applyForceConflicts: { required: false, type: 'boolean', default: false }
   }
 };
@@ -0,0 +1,33 @@
+import {
+  ICredentialsDecrypted,
+  ICredentialTestFunctions,
+  INodeCredentialTestResult,
+} from "n8n-workflow";
+import { K8SClient } from "./utils";
+
+/**
+ * Load the kubeconfig the same way the node does, then verify that the API
+ * server answers and accepts the credentials
+ */
+export async function kubernetesConnectionTest(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted
+): Promise<INodeCredentialTestResult> {
+  try {
+    const kubeConfig = K8SClient.loadKubeConfig(credential.data || {});
+    const info = await K8SClient.getConnectionInfo(kubeConfig);
+
+    const identity = info.username
+      ? `as ${info.username}${info.groups.length ? ` (groups: ${info.groups.join(", ")})` : ""}`
+      : "with accepted credentials";
+    return {
+      status: "OK",
+      message: `Connected to Kubernetes ${info.serverVersion} using context "${info.context}" ${identity}`,
+    };
+  } catch (error) {
+    return {
+      status: "Error",
+      message: `Connection failed: ${error.message}`,
+    };
+  }
+}
@@ -1,9 +1,94 @@
+import * as k8s from "@kubernetes/client-node";
 import {
   IExecuteFunctions,
   IDataObject,
   NodeOperationError,
 } from "n8n-workflow";
-import { PARAMETER_CONFIGS, RESOURCE_CONFIGS } from "./config";
+import path from "node:path";
+import * as tar from "tar-stream";
+import { INSTALL_ORDER, PARAMETER_CONFIGS, ResourceInfo } from "./config";
+
+// Operations allowed in a JSON Patch (RFC 6902)
+const JSON_PATCH_OPERATIONS = ['add', 'copy', 'move', 'remove', 'replace', 'test'];
+
+// Progress of a workload rollout
+export interface RolloutStatus {
+  done: boolean;
+  failed?: boolean;
+  message: string;
+}
+
+// Failure of a pod container or of a Job
+export interface WorkloadFailure {
+  reason: string;
+  container?: string;
+  restartCount?: number;
+  exitCode?: number;
+  message?: string;
+  // When the failure happened, if the status records it
+  failedAt?: string;
+  // Logs of the failed run belong to the previous container instance
+  previous?: boolean;
+}
+
+// How a container terminated, from its terminated state
+export interface ContainerTermination {
+  exitCode?: number;
+  reason?: string;
+  message?: string;
+  signal?: number;
+  startedAt?: string;
+  finishedAt?: string;
+  durationSeconds?: number;
+}
+
+// Pod spec settings of Run Pod and Run Job, applied to the main container
+export interface PodOptions {
+  command?: string[];
+  env?: k8s.V1EnvVar[];
+  envFrom?: k8s.V1EnvFromSource[];
+  resources?: k8s.V1ResourceRequirements;
+  imagePullPolicy?: string;
+  securityContext?: k8s.V1SecurityContext;
+  volumeMounts?: k8s.V1VolumeMount[];
+  labels?: Record<string, string>;
+  serviceAccountName?: string;
+  nodeSelector?: Record<string, string>;
+  tolerations?: k8s.V1Toleration[];
+  imagePullSecrets?: k8s.V1LocalObjectReference[];
+  volumes?: k8s.V1Volume[];
+  podSecurityContext?: k8s.V1PodSecurityContext;
+}
+
+// Job spec settings of Run Job
+export interface JobOptions {
+  activeDeadlineSeconds?: number;
+  backoffLimit?: number;
+  completionMode?: 'Indexed' | 'NonIndexed';
+  completions?: number;
+  parallelism?: number;
+  podFailurePolicy?: k8s.V1PodFailurePolicy;
+  ttlSecondsAfterFinished?: number;
+}
+
+// Item data handed to the container of Run Pod and Run Job
+export interface PodInput {
+  // stdin attaches to the running container, configMap and secret mount a file
+  mode: 'stdin' | 'configMap' | 'secret';
+  data: Buffer;
+  // Path of the mounted file in the container
+  filePath?: string;
+}
+
+// Key of the input data in the ConfigMap or Secret holding it
+const POD_INPUT_KEY = 'input';
+
+// A regular file read from or written to a tar archive
+export interface ArchiveFile {
+  path: string;
+  content: Buffer;
+  mode?: number;
+}
 
 export class ParameterHelper {
   constructor(private func: IExecuteFunctions) {}
@@ -50,6 +135,12 @@ export class ParameterHelper {
             }
           }
           break;
+        case 'yaml':
+          value = this.parseYamlOrJson(value, paramName);
+          break;
+        case 'manifest':
+          value = this.parseManifests(value);
+          break;
         case 'string':
           if (value !== undefined && value !== null && typeof value !== 'string') {
             value = String(value);
@@ -90,6 +181,166 @@ export class ParameterHelper {
     return parameters;
   }
 
+  /**
+   * Parse a YAML or JSON value that must contain exactly one document
+   * @param value YAML/JSON string or already parsed value
+   * @param paramName Parameter name
+   * @returns Parsed document
+   */
+  parseYamlOrJson(value: any, paramName: string): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    let documents: any[];
+    try {
+      documents = k8s.loadAllYaml(value).filter((doc) => doc !== null && doc !== undefined);
+    } catch (error) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `Parameter "${paramName}" must be valid YAML or JSON: ${error.message}`
+      );
+    }
+
+    if (documents.length !== 1) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `Parameter "${paramName}" must contain exactly one document, found ${documents.length}`
+      );
+    }
+
+    return documents[0];
+  }
+
+  /**
+   * Check that a patch body has the shape its patch type expects
+   * @param patchData Parsed patch body
+   * @param patchType Patch type selected on the node
+   */
+  validatePatchData(patchData: any, patchType: string): void {
+    if (patchType !== 'json') {
+      if (patchData === null || typeof patchData !== 'object' || Array.isArray(patchData)) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          'Patch data must be an object, use the JSON Patch type for a list of operations'
+        );
+      }
+      return;
+    }
+
+    if (!Array.isArray(patchData) || patchData.length === 0) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        'Patch data for a JSON Patch must be a non-empty list of operations'
+      );
+    }
+
+    patchData.forEach((operation: any, index: number) => {
+      const fail = (message: string) => {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          `JSON Patch operation ${index} ${message}`
+        );
+      };
+      if (operation === null || typeof operation !== 'object' || Array.isArray(operation)) {
+        fail('must be an object');
+      }
+      if (!JSON_PATCH_OPERATIONS.includes(operation.op)) {
+        fail(`has invalid op "${operation.op}", expected one of ${JSON_PATCH_OPERATIONS.join(', ')}`);
+      }
+      if (typeof operation.path !== 'string') {
+        fail('is missing a string "path"');
+      }
+      if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+        fail(`("${operation.op}") is missing "value"`);
+      }
+      if (['copy', 'move'].includes(operation.op) && typeof operation.from !== 'string') {
+        fail(`("${operation.op}") is missing a string "from"`);
+      }
+    });
+  }
+
+  /**
+   * Parse and validate Kubernetes resource manifests
+   * @param manifest YAML or JSON string, possibly with several documents separated by ---
+   * @returns Validated resource objects in document order
+   */
+  parseManifests(manifest: any): any[] {
+    let documents: any[];
+    if (typeof manifest === 'string') {
+      try {
+        documents = k8s.loadAllYaml(manifest);
+      } catch (error) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          `Resource manifest must be valid YAML or JSON: ${error.message}`
+        );
+      }
+    } else {
+      documents = [manifest];
+    }
+
+    // Flatten JSON arrays and List objects, skip empty documents
+    const resources = documents
+      .flatMap((doc) => {
+        if (Array.isArray(doc)) {
+          return doc;
+        }
+        if (typeof doc?.kind === 'string' && doc.kind.endsWith('List') && Array.isArray(doc.items)) {
+          return doc.items;
+        }
+        return [doc];
+      })
+      .filter((doc) => doc !== null && doc !== undefined);
+
+    if (resources.length === 0) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        "Resource manifest does not contain any documents!"
+      );
+    }
+
+    resources.forEach((resourceData, index) => {
+      this.validateResourceData(
+        resourceData,
+        resources.length > 1 ? `Document ${index + 1}` : 'Resource manifest'
+      );
+    });
+
+    return resources;
+  }
+
+  /**
+   * Validate the fields every Kubernetes resource definition needs
+   * @param resourceData Resource object
+   * @param label Label used in error messages
+   */
+  validateResourceData(resourceData: any, label: string): void {
+    if (!resourceData || typeof resourceData !== 'object' || Array.isArray(resourceData)) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `${label} must be a valid object!`
+      );
+    }
+
+    // Validate required fields
+    for (const field of ['apiVersion', 'kind', 'metadata']) {
+      if (!resourceData[field]) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          `${label} must contain '${field}' field!`
+        );
+      }
+    }
+
+    if (!resourceData.metadata.name) {
+      throw new NodeOperationError(
+        this.func.getNode(),
+        `${label} must contain 'metadata.name' field!`
+      );
+    }
+  }
+
   /**
    * Validate array parameter
    * @param value Value to validate
@@ -143,6 +394,187 @@ export class ParameterHelper {
     }
   }
 
+  /**
+   * Read the Input Data parameters of Run Pod and Run Job
+   * @param itemIndex Data item index
+   * @returns Input to pass to the container, or undefined when no input is configured
+   */
+  async getPodInput(itemIndex: number): Promise<PodInput | undefined> {
+    const mode = this.func.getNodeParameter('inputMode', itemIndex, 'none') as string;
+    if (mode === 'none') {
+      return undefined;
+    }
+
+    let data: Buffer;
+    if (this.func.getNodeParameter('inputSource', itemIndex, 'json') === 'binary') {
+      const property = this.func.getNodeParameter('inputBinaryPropertyName', itemIndex, 'data') as string;
+      this.func.helpers.assertBinaryData(itemIndex, property);
+      data = await this.func.helpers.getBinaryDataBuffer(itemIndex, property);
+    } else {
+      data = Buffer.from(JSON.stringify(this.func.getInputData()[itemIndex].json));
+    }
+
+    return {
+      mode: mode as PodInput['mode'],
+      data,
+      filePath: mode === 'stdin'
+        ? undefined
+        : (this.func.getNodeParameter('inputFilePath', itemIndex, '') as string) || undefined,
+    };
+  }
+
+  /**
+   * Convert the Additional Options collection of Run Pod and Run Job into pod settings
+   * @param options Collection value
+   * @returns Pod options, with unset fields left out
+   */
+  parsePodOptions(options: IDataObject = {}): PodOptions {
+    const podOptions: PodOptions = {};
+
+    const parseJson = (name: string, kind: 'array' | 'object'): any => {
+      const value = options[name];
+      if (value === undefined || value === '') {
+        return undefined;
+      }
+      const parsed = this.parseYamlOrJson(value, name);
+      if (kind === 'array' ? !Array.isArray(parsed) : typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          `Parameter "${name}" must be a JSON ${kind}`
+        );
+      }
+      return parsed;
+    };
+
+    const command = parseJson('command', 'array');
+    if (command?.length) {
+      podOptions.command = command.map(String);
+    }
+
+    const env = ((options.env as IDataObject)?.variables as IDataObject[]) || [];
+    if (env.length) {
+      podOptions.env = env.map((variable) => {
+        const name = variable.name as string;
+        switch (variable.source) {
+          case 'configMap':
+            return { name, valueFrom: { configMapKeyRef: { name: variable.sourceName as string, key: variable.key as string } } };
+          case 'secret':
+            return { name, valueFrom: { secretKeyRef: { name: variable.sourceName as string, key: variable.key as string } } };
+          default:
+            return { name, value: String(variable.value ?? '') };
+        }
+      });
+    }
+
+    const envFrom = ((options.envFrom as IDataObject)?.sources as IDataObject[]) || [];
+    if (envFrom.length) {
+      podOptions.envFrom = envFrom.map((source) =>
+        source.type === 'secret'
+          ? { secretRef: { name: source.name as string } }
+          : { configMapRef: { name: source.name as string } }
+      );
+    }
+
+    const quantities = (names: Record<string, string>) => {
+      const result: Record<string, string> = {};
+      for (const [param, resource] of Object.entries(names)) {
+        if (options[param]) {
+          result[resource] = String(options[param]);
+        }
+      }
+      return Object.keys(result).length ? result : undefined;
+    };
+    const requests = quantities({ cpuRequest: 'cpu', memoryRequest: 'memory' });
+    const limits = quantities({ cpuLimit: 'cpu', memoryLimit: 'memory' });
+    if (requests || limits) {
+      podOptions.resources = { requests, limits };
+    }
+
+    if (options.imagePullPolicy) {
+      podOptions.imagePullPolicy = options.imagePullPolicy as string;
+    }
+    if (options.serviceAccountName) {
+      podOptions.serviceAccountName = options.serviceAccountName as string;
+    }
+    if (options.imagePullCredentials) {
+      podOptions.imagePullSecrets = String(options.imagePullCredentials)
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .map((name) => ({ name }));
+    }
+
+    podOptions.labels = parseJson('labels', 'object');
+    podOptions.nodeSelector = parseJson('nodeSelector', 'object');
+    podOptions.tolerations = parseJson('tolerations', 'array');
+    podOptions.volumes = parseJson('volumes', 'array');
+    podOptions.volumeMounts = parseJson('volumeMounts', 'array');
+    podOptions.securityContext = parseJson('securityContext', 'object');
+    podOptions.podSecurityContext = parseJson('podSecurityContext', 'object');
+
+    return JSON.parse(JSON.stringify(podOptions));
+  }
+
+  /**
+   * Convert the Job Options collection of Run Job into Job spec settings
+   * @param options Collection value
+   * @param restartPolicy Restart policy of the Job's pods
+   * @returns Job options, with unset fields left out
+   */
+  parseJobOptions(options: IDataObject = {}, restartPolicy = 'Never'): JobOptions {
+    const jobOptions: JobOptions = {};
+
+    for (const name of [
+      'activeDeadlineSeconds',
+      'backoffLimit',
+      'completions',
+      'parallelism',
+      'ttlSecondsAfterFinished',
+    ] as const) {
+      const value = options[name];
+      if (value === undefined || value === '' || value === null) {
+        continue;
+      }
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 0) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          `Parameter "${name}" must be a non-negative integer`
+        );
+      }
+      jobOptions[name] = number;
+    }
+
+    if (options.completionMode === 'Indexed') {
+      if (!jobOptions.completions) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          'Indexed jobs need the number of completions'
+        );
+      }
+      jobOptions.completionMode = 'Indexed';
+    }
+
+    if (options.podFailurePolicy !== undefined && options.podFailurePolicy !== '') {
+      const policy = this.parseYamlOrJson(options.podFailurePolicy, 'podFailurePolicy');
+      if (!Array.isArray(policy?.rules)) {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          'Parameter "podFailurePolicy" must be an object with a "rules" array'
+        );
+      }
+      if (restartPolicy !== 'Never') {
+        throw new NodeOperationError(
+          this.func.getNode(),
+          'A pod failure policy needs the restart policy "Never"'
+        );
+      }
+      jobOptions.podFailurePolicy = policy;
+    }
+
+    return jobOptions;
+  }
+
   /**
    * Generate unique resource name
    * @param baseName Base name
@@ -160,23 +592,48 @@ export class ParameterHelper {
 
 export class ResourceHelper {
   /**
-   * Get resource configuration
-   * @param apiVersion API version
-   * @param kind Resource type
-   * @returns Resource configuration
+   * Split an API version into group and version
+   * @param apiVersion API version (e.g., v1, apps/v1)
+   * @returns Group (empty for the core API) and version
    */
-  static getResourceConfig(apiVersion: string, kind: string) {
-    const config = RESOURCE_CONFIGS[apiVersion];
-    if (!config) {
-      throw new Error(`Unsupported API version: ${apiVersion}`);
+  static parseApiVersion(apiVersion: string): { group: string; version: string } {
+    const parts = apiVersion.split('/');
+    if (parts.length === 1) {
+      return { group: '', version: parts[0] };
     }
+    return { group: parts[0], version: parts[1] };
+  }
 
-    const operation = config.operations[kind.toLowerCase()];
-    if (!operation) {
-      throw new Error(`Unsupported resource type: ${kind} for API version: ${apiVersion}`);
-    }
+  /**
+   * Sort resources so that dependencies are created first
+   * @param resources Resource objects
+   * @returns Resources ordered by kind, unknown kinds last
+   */
+  static sortByInstallOrder(resources: any[]): any[] {
+    const rank = (resourceData: any) => {
+      const index = INSTALL_ORDER.indexOf(resourceData.kind);
+      return index === -1 ? INSTALL_ORDER.length : index;
+    };
 
-    return { config, operation };
+    // Array.prototype.sort is stable, so documents of the same kind keep their order
+    return [...resources].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Build the output item for a resource that failed in a multi-document manifest
+   * @param resourceData Resource data
+   * @param error Error thrown for the resource
+   * @returns Failure result
+   */
+  static buildFailureResult(resourceData: any, error: any): IDataObject {
+    return {
+      success: false,
+      error: error.message,
+      apiVersion: resourceData.apiVersion,
+      kind: resourceData.kind,
+      name: resourceData.metadata?.name,
+      namespace: resourceData.metadata?.namespace
+    };
   }
 
   /**
@@ -284,31 +741,431 @@ export class ResourceHelper {
   }
 
   /**
-   * Build watch path
-   * @param apiVersion API version
-   * @param kind Resource type
-   * @param namespace Namespace
-   * @returns Watch path
+   * Apply pod options to a pod spec. Container settings go to the first container,
+   * lists such as env and volumes are appended to what the spec already has.
+   * @param spec Pod spec
+   * @param options Pod options
+   * @returns New pod spec
+   */
+  static applyPodOptions(spec: k8s.V1PodSpec, options: PodOptions): k8s.V1PodSpec {
+    const [container, ...otherContainers] = spec.containers;
+    const append = <T>(current?: T[], added?: T[]): T[] | undefined =>
+      added?.length ? [...(current || []), ...added] : current;
+
+    return {
+      ...spec,
+      serviceAccountName: options.serviceAccountName ?? spec.serviceAccountName,
+      nodeSelector: options.nodeSelector ? { ...spec.nodeSelector, ...options.nodeSelector } : spec.nodeSelector,
+      tolerations: append(spec.tolerations, options.tolerations),
+      imagePullSecrets: append(spec.imagePullSecrets, options.imagePullSecrets),
+      volumes: append(spec.volumes, options.volumes),
+      securityContext: options.podSecurityContext ?? spec.securityContext,
+      containers: [
+        {
+          ...container,
+          command: options.command ?? container.command,
+          env: append(container.env, options.env),
+          envFrom: append(container.envFrom, options.envFrom),
+          resources: options.resources ?? container.resources,
+          imagePullPolicy: options.imagePullPolicy ?? container.imagePullPolicy,
+          securityContext: options.securityContext ?? container.securityContext,
+          volumeMounts: append(container.volumeMounts, options.volumeMounts)
+        },
+        ...otherContainers
+      ]
+    };
+  }
+
+  /**
+   * Prepare a pod spec to receive input data: keep stdin open on the first container,
+   * or mount the ConfigMap or Secret holding the data as a single file
+   * @param spec Pod spec
+   * @param input Input data
+   * @param sourceName Name of the ConfigMap or Secret
+   * @returns New pod spec
+   */
+  static applyPodInput(spec: k8s.V1PodSpec, input: PodInput, sourceName: string): k8s.V1PodSpec {
+    const [container, ...otherContainers] = spec.containers;
+    if (input.mode === 'stdin') {
+      return { ...spec, containers: [{ ...container, stdin: true, stdinOnce: true }, ...otherContainers] };
+    }
+
+    const volume: k8s.V1Volume = input.mode === 'secret'
+      ? { name: 'n8n-input', secret: { secretName: sourceName } }
+      : { name: 'n8n-input', configMap: { name: sourceName } };
+    return {
+      ...spec,
+      volumes: [...(spec.volumes || []), volume],
+      containers: [
+        {
+          ...container,
+          volumeMounts: [
+            ...(container.volumeMounts || []),
+            { name: 'n8n-input', mountPath: input.filePath || '/n8n/input', subPath: POD_INPUT_KEY, readOnly: true }
+          ]
+        },
+        ...otherContainers
+      ]
+    };
+  }
+
+  /**
+   * Build the ConfigMap or Secret that holds input data for a pod
+   * @param input Input data, mounted as a file
+   * @param name Object name
+   * @returns ConfigMap or Secret manifest
+   */
+  static buildPodInputSource(input: PodInput, name: string): any {
+    const metadata = { name, labels: { 'managed-by-automation': 'n8n' } };
+    const content = { [POD_INPUT_KEY]: input.data.toString('base64') };
+    return input.mode === 'secret'
+      ? { apiVersion: 'v1', kind: 'Secret', metadata, type: 'Opaque', data: content }
+      : { apiVersion: 'v1', kind: 'ConfigMap', metadata, binaryData: content };
+  }
+
+  /**
+   * Convert a label selector object to its string form
+   * @param selector Label selector with matchLabels and matchExpressions
+   * @returns Selector string, e.g. "app=web,tier in (frontend)"
+   */
+  static formatLabelSelector(selector?: k8s.V1LabelSelector): string {
+    const parts = Object.entries(selector?.matchLabels || {}).map(([key, value]) => `${key}=${value}`);
+    for (const expression of selector?.matchExpressions || []) {
+      const values = (expression.values || []).join(',');
+      switch (expression.operator) {
+        case 'In':
+          parts.push(`${expression.key} in (${values})`);
+          break;
+        case 'NotIn':
+          parts.push(`${expression.key} notin (${values})`);
+          break;
+        case 'Exists':
+          parts.push(expression.key);
+          break;
+        case 'DoesNotExist':
+          parts.push(`!${expression.key}`);
+          break;
+      }
+    }
+    return parts.join(',');
+  }
+
+  /**
+   * Convert a timestamp that may have been deserialized into a Date back to a string
+   * @param value Date or timestamp string
+   * @returns ISO timestamp, or undefined when not set
+   */
+  static toTimestamp(value: any): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  /**
+   * Reduce a core Event to the fields shown by `kubectl get events`
+   * @param event Event object
+   * @returns Event summary
+   */
+  static summarizeEvent(event: any): IDataObject {
+    return {
+      type: event.type,
+      reason: event.reason,
+      message: event.message,
+      count: event.count || event.series?.count || 1,
+      firstTimestamp: ResourceHelper.toTimestamp(event.firstTimestamp || event.eventTime),
+      lastTimestamp: ResourceHelper.toTimestamp(
+        event.lastTimestamp || event.series?.lastObservedTime || event.eventTime || event.metadata?.creationTimestamp
+      ),
+      involvedObject: {
+        kind: event.involvedObject?.kind,
+        name: event.involvedObject?.name,
+        namespace: event.involvedObject?.namespace
+      },
+      source: event.source?.component || event.reportingComponent
+    };
+  }
+
+  /**
+   * Summarize the status conditions of an object
+   * @param obj Resource object
+   * @returns One entry per condition
+   */
+  static summarizeConditions(obj: any): IDataObject[] {
+    return (obj.status?.conditions || []).map((condition: any) => ({
+      type: condition.type,
+      status: condition.status,
+      reason: condition.reason,
+      message: condition.message,
+      lastTransitionTime: ResourceHelper.toTimestamp(condition.lastTransitionTime)
+    }));
+  }
+
+  /**
+   * Reduce a pod to the columns of `kubectl get pods -o wide`
+   * @param pod Pod object
+   * @returns Pod summary
    */
-  static buildWatchPath(apiVersion: string, kind: string, namespace: string): string {
-    const kindLower = kind.toLowerCase();
+  static summarizePod(pod: any): IDataObject {
+    const statuses: any[] = pod.status?.containerStatuses || [];
+    const notReady = statuses.find((status) => !status.ready);
+    return {
+      name: pod.metadata?.name,
+      phase: pod.status?.phase,
+      ready: `${statuses.filter((status) => status.ready).length}/${pod.spec?.containers?.length || statuses.length}`,
+      restarts: statuses.reduce((total, status) => total + (status.restartCount || 0), 0),
+      reason: notReady?.state?.waiting?.reason || notReady?.state?.terminated?.reason || pod.status?.reason,
+      node: pod.spec?.nodeName,
+      podIP: pod.status?.podIP,
+      startTime: ResourceHelper.toTimestamp(pod.status?.startTime)
+    };
+  }
 
-    if (apiVersion === 'v1') {
-      const pluralMap: { [key: string]: string } = {
-        'pod': 'pods',
-        'service': 'services',
-        'configmap': 'configmaps',
-        'secret': 'secrets',
-        'namespace': 'namespaces'
+  /**
+   * Read the exit code, reason and run time of a terminated container
+   * @param pod Pod object
+   * @param containerName Container name, the first container when not set
+   * @returns Termination details. When the container has not terminated, only the
+   * reason and message of the pod itself, e.g. Evicted or DeadlineExceeded
+   */
+  static getContainerTermination(pod: any, containerName?: string): ContainerTermination {
+    const statuses: any[] = pod?.status?.containerStatuses || [];
+    const status = containerName
+      ? statuses.find((containerStatus) => containerStatus.name === containerName)
+      : statuses[0];
+    const terminated = status?.state?.terminated;
+    if (!terminated) {
+      return {
+        ...(pod?.status?.reason && { reason: pod.status.reason }),
+        ...(pod?.status?.message && { message: pod.status.message })
       };
+    }
 
-      const plural = pluralMap[kindLower] || `${kindLower}s`;
-      return `/api/v1/namespaces/${namespace}/${plural}`;
-    } else {
-      const [group, version] = apiVersion.split('/');
-      const plural = `${kindLower}s`;
-      return `/apis/${group}/${version}/namespaces/${namespace}/${plural}`;
+    const startedAt = ResourceHelper.toTimestamp(terminated.startedAt);
+    const finishedAt = ResourceHelper.toTimestamp(terminated.finishedAt);
+    return {
+      exitCode: terminated.exitCode,
+      reason: terminated.reason,
+      message: terminated.message,
+      signal: terminated.signal,
+      startedAt,
+      finishedAt,
+      durationSeconds: ResourceHelper.getDurationSeconds(startedAt, finishedAt)
+    };
+  }
+
+  /**
+   * Seconds between two timestamps
+   * @param startedAt Start timestamp
+   * @param finishedAt End timestamp
+   * @returns Duration, undefined when either timestamp is missing
+   */
+  static getDurationSeconds(startedAt?: string, finishedAt?: string): number | undefined {
+    if (!startedAt || !finishedAt) {
+      return undefined;
+    }
+    return (Date.parse(finishedAt) - Date.parse(startedAt)) / 1000;
+  }
+
+  /**
+   * Find containers of a pod that crash loop, were OOM killed or cannot pull their image.
+   * Each container reports at most one failure: the first of OOMKilled, CrashLoopBackOff
+   * and ImagePullBackOff that applies and is among the given reasons.
+   * @param pod Pod object
+   * @param reasons Reasons to report, all when not set
+   * @returns Failures, one per failing container
+   */
+  static getPodFailures(pod: any, reasons?: string[]): WorkloadFailure[] {
+    const statuses = [
+      ...(pod.status?.initContainerStatuses || []),
+      ...(pod.status?.containerStatuses || [])
+    ];
+    const failures: WorkloadFailure[] = [];
+
+    for (const status of statuses) {
+      const waiting = status.state?.waiting;
+      const terminated = status.state?.terminated || status.lastState?.terminated;
+      const base = { container: status.name, restartCount: status.restartCount || 0 };
+
+      // A container crash looping because of OOM kills matches both reasons
+      const matches: WorkloadFailure[] = [];
+      if (terminated?.reason === 'OOMKilled') {
+        matches.push({
+          ...base,
+          reason: 'OOMKilled',
+          exitCode: terminated.exitCode,
+          message: terminated.message,
+          failedAt: terminated.finishedAt,
+          previous: !status.state?.terminated
+        });
+      }
+      if (waiting?.reason === 'CrashLoopBackOff') {
+        matches.push({
+          ...base,
+          reason: 'CrashLoopBackOff',
+          exitCode: status.lastState?.terminated?.exitCode,
+          message: waiting.message,
+          failedAt: status.lastState?.terminated?.finishedAt,
+          previous: true
+        });
+      }
+      if (waiting?.reason === 'ImagePullBackOff' || waiting?.reason === 'ErrImagePull') {
+        matches.push({ ...base, reason: 'ImagePullBackOff', message: waiting.message });
+      }
+
+      const failure = matches.find((match) => !reasons || reasons.includes(match.reason));
+      if (failure) {
+        failures.push(failure);
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Check whether a Job has failed
+   * @param job Job object
+   * @returns Failure when the Job has a true Failed condition
+   */
+  static getJobFailure(job: any): WorkloadFailure | undefined {
+    const failed = (job.status?.conditions || []).find(
+      (condition: any) => condition.type === 'Failed' && condition.status === 'True'
+    );
+    if (!failed) {
+      return undefined;
+    }
+    return {
+      reason: 'JobFailed',
+      message: [failed.reason, failed.message].filter(Boolean).join(': '),
+      failedAt: failed.lastTransitionTime
+    };
+  }
+
+  /**
+   * Evaluate the rollout status of a Deployment, StatefulSet or DaemonSet the
+   * same way `kubectl rollout status` does
+   * @param obj Workload object
+   * @returns Whether the rollout is done or failed, with a progress message
+   */
+  static getRolloutStatus(obj: any): RolloutStatus {
+    const kind = obj.kind;
+    const name = obj.metadata?.name;
+    const spec = obj.spec || {};
+    const status = obj.status || {};
+    const observed = (obj.metadata?.generation ?? 0) <= (status.observedGeneration ?? 0);
+
+    switch (kind) {
+      case 'Deployment': {
+        if (!observed) {
+          return { done: false, message: 'Waiting for deployment spec update to be observed' };
+        }
+        const progressing = (status.conditions || []).find((c: any) => c.type === 'Progressing');
+        if (progressing?.reason === 'ProgressDeadlineExceeded') {
+          return { done: false, failed: true, message: `Deployment "${name}" exceeded its progress deadline` };
+        }
+        const replicas = spec.replicas ?? 1;
+        const updated = status.updatedReplicas ?? 0;
+        if (updated < replicas) {
+          return { done: false, message: `${updated} out of ${replicas} new replicas have been updated` };
+        }
+        if ((status.replicas ?? 0) > updated) {
+          return { done: false, message: `${status.replicas - updated} old replicas are pending termination` };
+        }
+        if ((status.availableReplicas ?? 0) < updated) {
+          return { done: false, message: `${status.availableReplicas ?? 0} of ${updated} updated replicas are available` };
+        }
+        return { done: true, message: `Deployment "${name}" successfully rolled out` };
+      }
+
+      case 'DaemonSet': {
+        if (spec.updateStrategy?.type && spec.updateStrategy.type !== 'RollingUpdate') {
+          return { done: false, failed: true, message: 'Rollout status is only available for the RollingUpdate strategy' };
+        }
+        if (!observed) {
+          return { done: false, message: 'Waiting for daemon set spec update to be observed' };
+        }
+        const desired = status.desiredNumberScheduled ?? 0;
+        if ((status.updatedNumberScheduled ?? 0) < desired) {
+          return { done: false, message: `${status.updatedNumberScheduled ?? 0} out of ${desired} new pods have been updated` };
+        }
+        if ((status.numberAvailable ?? 0) < desired) {
+          return { done: false, message: `${status.numberAvailable ?? 0} of ${desired} updated pods are available` };
+        }
+        return { done: true, message: `Daemon set "${name}" successfully rolled out` };
+      }
+
+      case 'StatefulSet': {
+        if (spec.updateStrategy?.type && spec.updateStrategy.type !== 'RollingUpdate') {
+          return { done: false, failed: true, message: 'Rollout status is only available for the RollingUpdate strategy' };
+        }
+        if (!status.observedGeneration || !observed) {
+          return { done: false, message: 'Waiting for statefulset spec update to be observed' };
+        }
+        const replicas = spec.replicas ?? 1;
+        if ((status.readyReplicas ?? 0) < replicas) {
+          return { done: false, message: `${status.readyReplicas ?? 0} of ${replicas} pods are ready` };
+        }
+        const partition = spec.updateStrategy?.rollingUpdate?.partition;
+        if (partition) {
+          if ((status.updatedReplicas ?? 0) < replicas - partition) {
+            return { done: false, message: `${status.updatedReplicas ?? 0} of ${replicas - partition} updated pods are ready` };
+          }
+          return { done: true, message: `Partitioned roll out complete: ${status.updatedReplicas} new pods have been updated` };
+        }
+        if (status.updateRevision !== status.currentRevision) {
+          return { done: false, message: 'Waiting for statefulset rolling update to complete' };
+        }
+        return { done: true, message: `Statefulset rolling update complete ${status.currentReplicas ?? 0} pods at revision ${status.currentRevision}` };
+      }
+
+      default:
+        return { done: false, failed: true, message: `Rollout is not supported for kind ${kind}` };
+    }
+  }
+
+  /**
+   * Merge a patch into an object following JSON merge patch (RFC 7386) rules:
+   * objects merge recursively, null removes a field, anything else replaces it
+   * @param target Object to merge into, left unchanged
+   * @param patch Values to merge
+   * @returns Merged copy
+   */
+  static mergeObjects(target: any, patch: any): any {
+    if (!ResourceHelper.isPlainObject(patch)) {
+      return patch;
+    }
+    const result = ResourceHelper.isPlainObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete result[key];
+      } else {
+        result[key] = ResourceHelper.mergeObjects(result[key], value);
+      }
     }
+    return result;
+  }
+
+  private static isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  /**
+   * Build watch path
+   * @param resource Resource information from discovery
+   * @param namespace Namespace (ignored for cluster-scoped resources)
+   * @returns Watch path
+   */
+  static buildWatchPath(resource: ResourceInfo, namespace?: string): string {
+    const prefix = resource.group === ''
+      ? `/api/${resource.version}`
+      : `/apis/${resource.group}/${resource.version}`;
+
+    // Cluster-scoped resources (and all-namespace watches) have no namespace segment
+    if (!resource.namespaced || !namespace) {
+      return `${prefix}/${resource.plural}`;
+    }
+
+    return `${prefix}/namespaces/${namespace}/${resource.plural}`;
   }
 }
 
@@ -359,6 +1216,19 @@ export class OutputHelper {
     };
   }
 
+  /**
+   * Get the exit code reported in the status of an exec session
+   * @param status Status sent on the exec error channel
+   * @returns Exit code, or undefined when the command could not be run
+   */
+  static getExecExitCode(status: k8s.V1Status): number | undefined {
+    if (status.status === 'Success') {
+      return 0;
+    }
+    const cause = status.details?.causes?.find((c) => c.reason === 'ExitCode');
+    return cause?.message !== undefined ? parseInt(cause.message, 10) : undefined;
+  }
+
   /**
    * Check if it's an expected abort error
    * @param err Error object
@@ -369,3 +1239,71 @@ export class OutputHelper {
     return (err.message === "aborted" || err.type === "aborted") && completed;
   }
 }
+
+export class ArchiveHelper {
+  /**
+   * Normalize the path of an archive entry so it stays inside the directory it is extracted to
+   * @param entryPath Entry path
+   * @returns Relative path, undefined when the path is absolute or leaves the directory
+   */
+  static normalizeEntryPath(entryPath: string): string | undefined {
+    const normalized = path.posix.normalize(entryPath.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+    if (
+      normalized === '' ||
+      normalized === '.' ||
+      normalized === '..' ||
+      normalized.startsWith('../') ||
+      path.posix.isAbsolute(normalized)
+    ) {
+      return undefined;
+    }
+    return normalized;
+  }
+
+  /**
+   * Read the regular files of a tar archive, skipping directories and links
+   * @param archive Tar archive
+   * @returns Files with their path inside the archive
+   */
+  static async extractFiles(archive: Buffer): Promise<ArchiveFile[]> {
+    const files: ArchiveFile[] = [];
+    const extract = tar.extract();
+    extract.end(archive);
+
+    for await (const entry of extract) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of entry) {
+        chunks.push(chunk as Buffer);
+      }
+      const entryPath = ArchiveHelper.normalizeEntryPath(entry.header.name);
+      if (entry.header.type === 'file' && entryPath) {
+        files.push({
+          path: entryPath,
+          content: Buffer.concat(chunks),
+          mode: entry.header.mode,
+        });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Build a tar archive from a list of files
+   * @param files Files to add, with their path inside the archive
+   * @returns Tar archive
+   */
+  static async packFiles(files: ArchiveFile[]): Promise<Buffer> {
+    const pack = tar.pack();
+    for (const file of files) {
+      pack.entry({ name: file.path, mode: file.mode ?? 0o644, mtime: new Date() }, file.content);
+    }
+    pack.finalize();
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of pack) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
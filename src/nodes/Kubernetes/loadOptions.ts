@@ -0,0 +1,166 @@
+import {
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from "n8n-workflow";
+import { K8SClient } from "./utils";
+
+// Maximum number of objects offered in a name dropdown
+const NAME_OPTIONS_LIMIT = 500;
+
+// Prefix of the pod selection parameters of each operation that targets a pod
+const POD_PARAMETER_PREFIXES: Record<string, string> = {
+  download: "file",
+  exec: "exec",
+  logs: "logs",
+  upload: "file",
+};
+
+function getPodParameterPrefix(func: ILoadOptionsFunctions): string {
+  return POD_PARAMETER_PREFIXES[getParameter(func, "operation") || ""] || "logs";
+}
+
+async function getClient(func: ILoadOptionsFunctions): Promise<K8SClient> {
+  const credentials = await func.getCredentials("kubernetesCredentialsApi");
+  return new K8SClient(credentials, func, getParameter(func, "context"));
+}
+
+/**
+ * Read a sibling parameter, ignoring values that are still unresolved expressions.
+ * Empty values fall back to the same defaults the node uses at run time.
+ */
+function getParameter(func: ILoadOptionsFunctions, name: string): string | undefined {
+  const value = func.getCurrentNodeParameter(name);
+  if (typeof value !== "string" || value === "" || value.startsWith("=")) {
+    return undefined;
+  }
+  return value;
+}
+
+function toOptions(names: string[]): INodePropertyOptions[] {
+  return [...new Set(names)]
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => ({ name, value: name }));
+}
+
+async function listNames(
+  func: ILoadOptionsFunctions,
+  apiVersion: string,
+  kind: string,
+  namespace?: string
+): Promise<INodePropertyOptions[]> {
+  const client = await getClient(func);
+  const list = await client.listResources(apiVersion, kind, namespace || client.defaultNamespace, {
+    limit: NAME_OPTIONS_LIMIT,
+  });
+  return toOptions((list.items || []).map((item: any) => item.metadata?.name).filter(Boolean));
+}
+
+export async function getNamespaces(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  return listNames(this, "v1", "Namespace");
+}
+
+export async function getContexts(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const credentials = await this.getCredentials("kubernetesCredentialsApi");
+  const kubeConfig = K8SClient.loadKubeConfig(credentials);
+  return [
+    { name: "Credential Default", value: "" },
+    ...toOptions(kubeConfig.getContexts().map((context) => context.name)),
+  ];
+}
+
+export async function getApiVersions(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const client = await getClient(this);
+  const versions = await client.resourceManager.getApiVersions();
+  return versions.map((version) => ({ name: version, value: version }));
+}
+
+export async function getKinds(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const operation = getParameter(this, "operation");
+  const apiVersion =
+    getParameter(this, operation === "wait" ? "waitApiVersion" : "apiVersion") || "v1";
+  const client = await getClient(this);
+  const resources = await client.resourceManager.getApiResources(apiVersion);
+  return toOptions(resources.map((resource) => resource.kind));
+}
+
+export async function getResourceNames(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const operation = getParameter(this, "operation");
+  if (operation === "rollout") {
+    return listNames(
+      this,
+      "apps/v1",
+      getParameter(this, "rolloutKind") || "Deployment",
+      getParameter(this, "rolloutNamespace")
+    );
+  }
+  if (operation === "setImage") {
+    const kind = getParameter(this, "setImageKind") || "Deployment";
+    return listNames(
+      this,
+      kind === "CronJob" ? "batch/v1" : "apps/v1",
+      kind,
+      getParameter(this, "setImageNamespace")
+    );
+  }
+
+  const [apiVersionParam, kindParam, namespaceParam] =
+    operation === "wait"
+      ? ["waitApiVersion", "waitKind", "waitNamespace"]
+      : ["apiVersion", "kind", "resourceNamespace"];
+
+  const apiVersion = getParameter(this, apiVersionParam) || "v1";
+  const kind = getParameter(this, kindParam) || "Pod";
+  return listNames(this, apiVersion, kind, getParameter(this, namespaceParam));
+}
+
+export async function getPods(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const prefix = getPodParameterPrefix(this);
+  return listNames(this, "v1", "Pod", getParameter(this, `${prefix}Namespace`));
+}
+
+export async function getCronJobs(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  return listNames(this, "batch/v1", "CronJob", getParameter(this, "cronJobNamespace"));
+}
+
+export async function getContainers(
+  this: ILoadOptionsFunctions
+): Promise<INodePropertyOptions[]> {
+  const prefix = getPodParameterPrefix(this);
+  const client = await getClient(this);
+  const namespace = getParameter(this, `${prefix}Namespace`) || client.defaultNamespace;
+
+  // In label selector mode the containers of the first matching pod are offered
+  let pod: any;
+  if (getParameter(this, `${prefix}PodSelectionMethod`) === "labelSelector") {
+    const labelSelector = getParameter(this, `${prefix}LabelSelector`);
+    if (labelSelector) {
+      const list = await client.listResources("v1", "Pod", namespace, { labelSelector, limit: 1 });
+      pod = list.items?.[0];
+    }
+  } else {
+    const podName = getParameter(this, `${prefix}PodName`);
+    if (podName) {
+      pod = await client.getResource("v1", "Pod", podName, namespace);
+    }
+  }
+
+  const containers: string[] = (pod?.spec?.containers || []).map((container: any) => container.name);
+  return [
+    { name: "Default (First Container)", value: "" },
+    ...containers.map((name) => ({ name, value: name })),
+  ];
+}
@@ -1,13 +1,47 @@
-import { PassThrough } from "node:stream";
+import path from "node:path";
+import { PassThrough, Readable, Writable } from "node:stream";
 
 import * as k8s from "@kubernetes/client-node";
 import {
 	ICredentialDataDecryptedObject,
-	IExecuteFunctions,
+	IDataObject,
 	NodeOperationError,
 } from "n8n-workflow";
 
-import { OutputHelper } from "./helpers";
+import { NodeFunctions, WAIT_CONDITIONS } from "./config";
+import {
+	ArchiveFile,
+	ArchiveHelper,
+	ContainerTermination,
+	JobOptions,
+	OutputHelper,
+	PodInput,
+	PodOptions,
+	ResourceHelper,
+	RolloutStatus,
+} from "./helpers";
+import { ResourceManager } from "./ResourceManager";
+
+// Content types sent for each Patch Type option, "default" lets the resource group decide
+const PATCH_STRATEGIES: Record<string, k8s.PatchStrategy | undefined> = {
+	default: undefined,
+	apply: k8s.PatchStrategy.ServerSideApply,
+	json: k8s.PatchStrategy.JsonPatch,
+	merge: k8s.PatchStrategy.MergePatch,
+	strategic: k8s.PatchStrategy.StrategicMergePatch,
+};
+
+// Number of Warning events attached to the error of a wait that timed out
+const TIMEOUT_WARNING_EVENTS = 10;
+
+// Default time Run Job waits for the Job to finish
+const JOB_TIMEOUT_MS = 300000;
+
+// Pod annotation holding the completion index of an Indexed Job
+const JOB_COMPLETION_INDEX_ANNOTATION = "batch.kubernetes.io/job-completion-index";
+
+// Maximum size of the output read from a finished container, per stream when stdout and stderr are separate
+const CONTAINER_LOG_LIMIT_BYTES = 10 * 1024 * 1024;
 
 // Helper types
 interface LogOptions {
@@ -16,14 +50,26 @@ interface LogOptions {
 	pretty?: boolean;
 	timestamps?: boolean;
 	sinceTime?: string;
+	previous?: boolean;
 }
 
-interface JobResult {
+type JobRunStatus = "completed" | "failed" | "unknown";
+
+// Timing is that of the Job, exit code and stderr those of the pod the output was read from
+interface JobResult extends ContainerTermination {
 	jobName: string;
 	namespace: string;
-	status: string;
+	status: JobRunStatus;
 	jobStatus?: string;
 	output: any;
+	stderr?: string;
+	podName?: string;
+	// Why the output could not be read, the output is then empty
+	logsError?: string;
+	// Every pod of the Job, including retries, and their logs combined
+	podsFound?: number;
+	pods?: JobPodResult[];
+	totalLogs?: string;
 	cleaned?: boolean;
 	podsDeleted?: number;
 	cronJobName?: string;
@@ -31,12 +77,133 @@ interface JobResult {
 	overridesApplied?: boolean;
 }
 
+// Output and termination of one pod of Run Job
+interface JobPodResult extends ContainerTermination {
+	podName: string;
+	// Completion index of an Indexed Job
+	index?: number;
+	// Counts the pods of the completion index, or of the Job when it is not indexed
+	attempt: number;
+	phase?: string;
+	logs: any;
+	stderr?: string;
+	logsError?: string;
+}
+
+// Output and termination of the main container of Run Pod
+export interface PodRunResult extends ContainerTermination {
+	podName: string;
+	phase?: string;
+	// The whole container log when the cluster does not return the streams separately
+	stdout: any;
+	// Only set when the cluster returns the log streams separately
+	stderr?: string;
+	// Why the log could not be read, e.g. of an evicted pod. stdout is then empty.
+	logsError?: string;
+}
+
+interface ListOptions {
+	labelSelector?: string;
+	fieldSelector?: string;
+	allNamespaces?: boolean;
+	limit?: number;
+}
+
+export interface ConnectionInfo {
+	serverVersion: string;
+	context: string;
+	username?: string;
+	groups: string[];
+}
+
+export interface PodTarget {
+	podName?: string;
+	labelSelector?: string;
+}
+
+export interface ExecResult {
+	podName: string;
+	namespace: string;
+	container: string;
+	command: string[];
+	stdout: string;
+	stderr: string;
+	exitCode: number;
+}
+
+export interface ScaleResult {
+	kind: string;
+	name: string;
+	namespace: string;
+	previousReplicas: number;
+	newReplicas: number;
+	readyReplicas?: number;
+}
+
+interface RolloutRevision {
+	revision: number;
+	name: string;
+	createdAt?: string;
+	changeCause?: string;
+	template?: any;
+	data?: any;
+}
+
+// API versions of the workload kinds whose pod template can be changed. The
+// template of a Job is immutable.
+const WORKLOAD_API_VERSIONS: Record<string, string> = {
+	CronJob: "batch/v1",
+	DaemonSet: "apps/v1",
+	Deployment: "apps/v1",
+	StatefulSet: "apps/v1",
+};
+
+const RESTARTED_AT_ANNOTATION = "kubectl.kubernetes.io/restartedAt";
+const DEPLOYMENT_REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+const CHANGE_CAUSE_ANNOTATION = "kubernetes.io/change-cause";
+
+interface DeleteOptions {
+	propagationPolicy?: string;
+	gracePeriodSeconds?: number;
+	waitForDeletion?: boolean;
+	timeout?: number;
+}
+
+export interface WatchOptions {
+	allNamespaces?: boolean;
+	labelSelector?: string;
+	fieldSelector?: string;
+	// Resume after this resourceVersion instead of the current state
+	resourceVersion?: string;
+	// Called whenever the watch has seen a newer resourceVersion
+	onResourceVersion?: (resourceVersion: string) => void;
+}
+
+export interface EventOptions {
+	allNamespaces?: boolean;
+	involvedKind?: string;
+	involvedName?: string;
+	involvedUid?: string;
+	type?: string;
+	sinceTime?: string;
+}
+
+export interface UpdateOptions {
+	mode?: "merge" | "replace";
+	maxRetries?: number;
+}
+
 export class K8SClient {
 	kubeConfig: k8s.KubeConfig;
+	resourceManager: ResourceManager;
+	defaultNamespace: string;
+	// Whether the cluster returns stdout and stderr separately, unknown until a container log tells
+	private splitLogStreams?: boolean;
 
 	constructor(
 		credentials: ICredentialDataDecryptedObject,
-		private readonly func: IExecuteFunctions
+		private readonly func: NodeFunctions,
+		context?: string
 	) {
 		if (credentials === undefined) {
 			throw new NodeOperationError(
@@ -44,6 +211,27 @@ export class K8SClient {
 				"No credentials got returned!"
 			);
 		}
+		let kubeConfig: k8s.KubeConfig;
+		try {
+			kubeConfig = K8SClient.loadKubeConfig(credentials, context);
+		} catch (error) {
+			throw new NodeOperationError(func.getNode(), error);
+		}
+		this.kubeConfig = kubeConfig;
+		this.defaultNamespace = (credentials.namespace as string) || "default";
+		this.resourceManager = new ResourceManager(kubeConfig, func);
+	}
+
+	/**
+	 * Build a KubeConfig from the credential fields
+	 * @param credentials Decrypted Kubernetes credentials
+	 * @param context Context to use instead of the one set on the credential (optional)
+	 * @returns Loaded KubeConfig
+	 */
+	static loadKubeConfig(
+		credentials: ICredentialDataDecryptedObject,
+		context?: string
+	): k8s.KubeConfig {
 		const kubeConfig = new k8s.KubeConfig();
 		switch (credentials.loadFrom) {
 			case "automatic":
@@ -54,10 +242,7 @@ export class K8SClient {
 					typeof credentials.filePath !== "string" ||
 					credentials.filePath === ""
 				) {
-					throw new NodeOperationError(
-						func.getNode(),
-						"File path not set!"
-					);
+					throw new Error("File path not set!");
 				}
 				kubeConfig.loadFromFile(credentials.filePath);
 				break;
@@ -66,27 +251,123 @@ export class K8SClient {
 					typeof credentials.content !== "string" ||
 					credentials.content === ""
 				) {
-					throw new NodeOperationError(
-						func.getNode(),
-						"Content not set!"
-					);
+					throw new Error("Content not set!");
 				}
 				kubeConfig.loadFromString(credentials.content);
 				break;
+			case "token":
+				if (
+					typeof credentials.server !== "string" ||
+					credentials.server === ""
+				) {
+					throw new Error("Server not set!");
+				}
+				if (
+					typeof credentials.token !== "string" ||
+					credentials.token === ""
+				) {
+					throw new Error("Token not set!");
+				}
+				kubeConfig.loadFromOptions({
+					clusters: [
+						{
+							name: "n8n",
+							server: credentials.server,
+							caData: K8SClient.encodeCaData(credentials.caData as string),
+							skipTLSVerify: credentials.skipTLSVerify === true,
+						},
+					],
+					users: [{ name: "n8n", token: credentials.token }],
+					contexts: [{ name: "n8n", cluster: "n8n", user: "n8n" }],
+					currentContext: "n8n",
+				});
+				break;
 			default:
-				throw new NodeOperationError(
-					func.getNode(),
-					"Load from value not set!"
-				);
+				throw new Error("Load from value not set!");
 		}
-		this.kubeConfig = kubeConfig;
+
+		const contextName = context || (credentials.context as string);
+		if (contextName && credentials.loadFrom !== "token") {
+			if (!kubeConfig.getContextObject(contextName)) {
+				throw new Error(`Context "${contextName}" not found in kubeconfig!`);
+			}
+			kubeConfig.setCurrentContext(contextName);
+		}
+		return kubeConfig;
+	}
+
+	/**
+	 * Normalize CA data to the base64 form expected in a kubeconfig
+	 * @param caData PEM or base64-encoded PEM certificate
+	 * @returns Base64-encoded certificate, or undefined when empty
+	 */
+	private static encodeCaData(caData?: string): string | undefined {
+		const value = caData?.trim();
+		if (!value) {
+			return undefined;
+		}
+		if (value.includes("-----BEGIN")) {
+			return Buffer.from(value).toString("base64");
+		}
+		return value.replace(/\s/g, "");
+	}
+
+	/**
+	 * Check that the cluster is reachable and the credentials are accepted
+	 * @param kubeConfig Loaded KubeConfig
+	 * @returns Server version, current context and authenticated identity
+	 */
+	static async getConnectionInfo(kubeConfig: k8s.KubeConfig): Promise<ConnectionInfo> {
+		const version = await kubeConfig.makeApiClient(k8s.VersionApi).getCode();
+
+		let username: string | undefined;
+		let groups: string[] = [];
+		try {
+			const review = await kubeConfig
+				.makeApiClient(k8s.AuthenticationV1Api)
+				.createSelfSubjectReview({
+					body: {
+						apiVersion: "authentication.k8s.io/v1",
+						kind: "SelfSubjectReview",
+					},
+				});
+			username = review.status?.userInfo?.username;
+			groups = review.status?.userInfo?.groups || [];
+		} catch (error) {
+			if (error.code !== 404) {
+				throw error;
+			}
+			// SelfSubjectReview is only served from Kubernetes 1.28 on; an access
+			// review still proves the credentials are accepted on older clusters
+			console.log(`[DEBUG] SelfSubjectReview not available, falling back to SelfSubjectAccessReview`);
+			await kubeConfig
+				.makeApiClient(k8s.AuthorizationV1Api)
+				.createSelfSubjectAccessReview({
+					body: {
+						apiVersion: "authorization.k8s.io/v1",
+						kind: "SelfSubjectAccessReview",
+						spec: {
+							resourceAttributes: { verb: "list", resource: "namespaces" },
+						},
+					},
+				});
+		}
+
+		return {
+			serverVersion: version.gitVersion,
+			context: kubeConfig.getCurrentContext(),
+			username,
+			groups,
+		};
 	}
 	async runPodAndGetOutput(
 		image: string,
 		args: string[],
 		podName?: string,
-		namespace = "default"
-	): Promise<string> {
+		namespace = "default",
+		podOptions: PodOptions = {},
+		input?: PodInput
+	): Promise<PodRunResult> {
 		const kc = this.kubeConfig;
 
 		const k8sCoreApi = kc.makeApiClient(k8s.CoreV1Api);
@@ -98,17 +379,21 @@ export class K8SClient {
 			image,
 			args,
 			podName,
-			namespace
+			namespace,
+			podOptions,
+			input: input && { mode: input.mode, size: input.data.length, filePath: input.filePath }
 		});
 
+		const inputSourceName = `${podName}-input`;
 		const podSpec: k8s.V1Pod = {
 			metadata: {
 				name: podName,
 				labels: {
+					...podOptions.labels,
 					"managed-by-automation": "n8n"
 				}
 			},
-			spec: {
+			spec: ResourceHelper.applyPodOptions({
 				restartPolicy: "Never",
 				containers: [
 					{
@@ -117,19 +402,29 @@ export class K8SClient {
 						args,
 					},
 				],
-			},
+			}, podOptions),
 		};
+		if (input) {
+			podSpec.spec = ResourceHelper.applyPodInput(podSpec.spec!, input, inputSourceName);
+			await this.createPodInputSource(input, inputSourceName, namespace);
+		}
 
 		console.log(`[DEBUG] Creating pod with spec:`, JSON.stringify(podSpec, null, 2));
 
 		try {
-			await k8sCoreApi.createNamespacedPod({
+			const createdPod = await k8sCoreApi.createNamespacedPod({
 				namespace: namespace,
 				body: podSpec
 			});
 			console.log(`[DEBUG] Pod created successfully: ${podName}`);
+			if (input) {
+				await this.setPodInputSourceOwner(input, inputSourceName, namespace, "v1", "Pod", createdPod.metadata!);
+			}
 		} catch (error) {
 			console.error(`[DEBUG] Failed to create pod ${podName}:`, error);
+			if (input) {
+				await this.deletePodInputSource(input, inputSourceName, namespace);
+			}
 			throw new NodeOperationError(
 				this.func.getNode(),
 				`Failed to create pod "${podName}" in namespace "${namespace}": ${error.message}`
@@ -137,8 +432,10 @@ export class K8SClient {
 		}
 
 		try {
-			const result = await new Promise<string>(async (resolve, reject) => {
+			const completedPod = await new Promise<k8s.V1Pod>(async (resolve, reject) => {
 				let podCompleted = false;
+				let stdinAttached = false;
+				let stdinFailed = false;
 
 				const watchReq = await watch.watch(
 					`/api/v1/namespaces/${namespace}/pods`,
@@ -150,31 +447,31 @@ export class K8SClient {
 						const phase = obj.status?.phase;
 						console.log(`[DEBUG] Pod ${podName} phase update: ${phase}`);
 
+						if (phase === "Running" && input?.mode === "stdin" && !stdinAttached) {
+							stdinAttached = true;
+							this.writePodStdin(podName!, namespace, "main-container", input.data).catch((err) => {
+								// The container waits for its input forever, the pod is deleted below
+								console.error(`[DEBUG] Failed to write stdin of pod ${podName}:`, err);
+								stdinFailed = true;
+								watchReq?.abort();
+								reject(this.buildStdinError(podName!, err));
+							});
+						}
+
 												if (phase === "Succeeded" || phase === "Failed") {
 							console.log(`[DEBUG] Pod ${podName} completed with phase: ${phase}`);
 							podCompleted = true;
 
-							// Use the unified log retrieval method
-							this.retrievePodLogs(podName, namespace, "main-container", {
-								tailLines: 1000
-							}).then((logs) => {
-								// Abort the watch after resolving to avoid race conditions
-								setTimeout(() => {
-									watchReq?.abort();
-								}, 100);
-								resolve(logs);
-							}).catch((err) => {
-								console.error(`[DEBUG] Log API error for pod ${podName}:`, err);
-								setTimeout(() => {
-									watchReq?.abort();
-								}, 100);
-								reject(err);
-							});
+							// Abort the watch after resolving to avoid race conditions
+							setTimeout(() => {
+								watchReq?.abort();
+							}, 100);
+							resolve(obj);
 						}
 									},
 				(err) => {
 					// Don't treat AbortError as a real error if the pod has already completed
-					if (this.isExpectedAbortError(err, podCompleted)) {
+					if (this.isExpectedAbortError(err, podCompleted || stdinFailed)) {
 						console.log(`[DEBUG] Pod watch aborted for ${podName} after completion (expected)`);
 						return;
 					}
@@ -183,12 +480,30 @@ export class K8SClient {
 				}
 				);
 			});
+
+			const result: PodRunResult = {
+				podName,
+				phase: completedPod.status?.phase,
+				stdout: "",
+				...ResourceHelper.getContainerTermination(completedPod, "main-container"),
+			};
+			// Only the termination decides whether the run failed, a missing log does not
+			try {
+				const { stdout, stderr } = await this.retrieveContainerOutput(podName, namespace, "main-container");
+				result.stdout = stdout;
+				if (stderr !== undefined) {
+					result.stderr = stderr;
+				}
+			} catch (error) {
+				console.error(`[DEBUG] Failed to get logs for pod ${podName}:`, error);
+				result.logsError = error.message;
+			}
 			return result;
 		} catch (e) {
 			if (e.message === "aborted" || e.type === "aborted") {
 				console.log(`[DEBUG] Watch aborted for pod ${podName}`);
 				// This is fine
-				return "";
+				return { podName, stdout: "" };
 			} else {
 				console.error(`[DEBUG] Error running pod ${podName}:`, e);
 				throw e;
@@ -204,7 +519,130 @@ export class K8SClient {
 			} catch (deleteError) {
 				console.error(`[DEBUG] Failed to delete pod ${podName}:`, deleteError);
 			}
+			if (input) {
+				await this.deletePodInputSource(input, inputSourceName, namespace);
+			}
+		}
+	}
+
+	/**
+	 * Create the ConfigMap or Secret that holds the input data of a pod or Job.
+	 * Nothing is created for stdin input.
+	 */
+	private async createPodInputSource(input: PodInput, name: string, namespace: string): Promise<void> {
+		if (input.mode === "stdin") {
+			return;
+		}
+		const source = ResourceHelper.buildPodInputSource(input, name);
+		await this.resourceManager.performResourceOperation(
+			'create',
+			'v1',
+			source.kind,
+			name,
+			namespace,
+			source
+		);
+		console.log(`[DEBUG] Created ${source.kind} ${name} with ${input.data.length} bytes of input`);
+	}
+
+	/**
+	 * Make the pod or Job own its input ConfigMap or Secret, so the garbage collector
+	 * removes it even if the execution stops before cleaning up
+	 */
+	private async setPodInputSourceOwner(
+		input: PodInput,
+		name: string,
+		namespace: string,
+		ownerApiVersion: string,
+		ownerKind: string,
+		owner: k8s.V1ObjectMeta
+	): Promise<void> {
+		if (input.mode === "stdin") {
+			return;
+		}
+		try {
+			await this.resourceManager.performResourceOperation(
+				'patch',
+				'v1',
+				input.mode === "secret" ? "Secret" : "ConfigMap",
+				name,
+				namespace,
+				{
+					metadata: {
+						ownerReferences: [
+							{ apiVersion: ownerApiVersion, kind: ownerKind, name: owner.name!, uid: owner.uid! },
+						],
+					},
+				},
+				{ patchStrategy: k8s.PatchStrategy.MergePatch }
+			);
+		} catch (error) {
+			console.warn(`[DEBUG] Failed to set owner of input ${name}:`, error);
+		}
+	}
+
+	// Delete the input ConfigMap or Secret, cleanup failures are only logged
+	private async deletePodInputSource(input: PodInput, name: string, namespace: string): Promise<void> {
+		if (input.mode === "stdin") {
+			return;
+		}
+		try {
+			await this.resourceManager.performResourceOperation(
+				'delete',
+				'v1',
+				input.mode === "secret" ? "Secret" : "ConfigMap",
+				name,
+				namespace
+			);
+			console.log(`[DEBUG] Deleted input ${name}`);
+		} catch (error) {
+			console.warn(`[DEBUG] Failed to delete input ${name}:`, error);
+		}
+	}
+
+	/**
+	 * Attach to a running container and write data to its stdin. The container has
+	 * stdinOnce set, so it sees end of file once the data is written.
+	 */
+	private async writePodStdin(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		data: Buffer
+	): Promise<void> {
+		const stdin = Readable.from([data]);
+		const ws = await new k8s.Attach(this.kubeConfig).attach(
+			namespace,
+			podName,
+			containerName,
+			null,
+			null,
+			stdin,
+			false
+		);
+		if (!stdin.readableEnded) {
+			await new Promise((resolve) => stdin.once("end", resolve));
 		}
+		// Frames queued before the close frame are still sent, and the server answers the close
+		// frame only after reading them, so detaching waits for that answer
+		await new Promise<void>((resolve) => {
+			if (ws.readyState === ws.CLOSED) {
+				resolve();
+				return;
+			}
+			ws.once("close", () => resolve());
+			ws.close();
+		});
+		console.log(`[DEBUG] Wrote ${data.length} bytes to stdin of pod ${podName}`);
+	}
+
+	// Error for input that could not be written to the standard input of a pod
+	private buildStdinError(podName: string, error: any): NodeOperationError {
+		return new NodeOperationError(
+			this.func.getNode(),
+			`Failed to attach to the standard input of pod "${podName}": ${error.message}`,
+			{ description: "Writing the input to standard input needs permission for pods/attach" }
+		);
 	}
 
 	async runJobAndGetOutput(
@@ -213,7 +651,11 @@ export class K8SClient {
 		jobName: string,
 		namespace = "default",
 		restartPolicy = "Never",
-		cleanupJob = true
+		cleanupJob = true,
+		podOptions: PodOptions = {},
+		jobOptions: JobOptions = {},
+		input?: PodInput,
+		includeAllPods = false
 	): Promise<JobResult> {
 		const kc = this.kubeConfig;
 		const k8sBatchApi = kc.makeApiClient(k8s.BatchV1Api);
@@ -224,7 +666,10 @@ export class K8SClient {
 			jobName,
 			namespace,
 			restartPolicy,
-			cleanupJob
+			cleanupJob,
+			podOptions,
+			jobOptions,
+			includeAllPods
 		});
 
 		// Validate input parameters
@@ -273,17 +718,20 @@ export class K8SClient {
 			metadata: {
 				name: finalJobName,
 				labels: {
+					...podOptions.labels,
 					"managed-by-automation": "n8n"
 				}
 			},
 			spec: {
+				...jobOptions,
 				template: {
 					metadata: {
 						labels: {
+							...podOptions.labels,
 							"managed-by-automation": "n8n"
 						}
 					},
-					spec: {
+					spec: ResourceHelper.applyPodOptions({
 						restartPolicy: restartPolicy as any,
 						containers: [
 							{
@@ -292,21 +740,63 @@ export class K8SClient {
 								args,
 							},
 						],
-					},
+					}, podOptions),
 				},
 			},
 		};
 
+		const inputSourceName = `${finalJobName}-input`;
+		let stopStdinWatch: (() => void) | undefined;
+		const stdinFailure = new AbortController();
+		if (input) {
+			const podTemplate = jobSpec.spec!.template;
+			podTemplate.spec = ResourceHelper.applyPodInput(podTemplate.spec!, input, inputSourceName);
+			await this.createPodInputSource(input, inputSourceName, namespace);
+		}
+
 		// Create the job
 		try {
+			if (input?.mode === "stdin") {
+				// Started before the Job so no pod is missed. Every pod and, with restart policy
+				// OnFailure, every restart of the container gets the input.
+				const attached = new Set<string>();
+				stopStdinWatch = await this.watchResources(
+					"v1",
+					"Pod",
+					namespace,
+					{ labelSelector: `job-name=${finalJobName}` },
+					(type, pod: any) => {
+						const status = (pod.status?.containerStatuses || []).find(
+							(containerStatus: any) => containerStatus.name === "main-container"
+						);
+						const key = `${pod.metadata?.uid}/${status?.restartCount ?? 0}`;
+						if (type === "DELETED" || !status?.state?.running || attached.has(key)) {
+							return;
+						}
+						attached.add(key);
+						this.writePodStdin(pod.metadata.name, namespace, "main-container", input.data).catch((err) => {
+							console.error(`[DEBUG] Failed to write stdin of pod ${pod.metadata.name}:`, err);
+							stdinFailure.abort(this.buildStdinError(pod.metadata.name, err));
+						});
+					}
+				);
+			}
+
 			console.log(`[DEBUG] Creating job with spec:`, JSON.stringify(jobSpec, null, 2));
-			await k8sBatchApi.createNamespacedJob({
+			const createdJob = await k8sBatchApi.createNamespacedJob({
 				namespace: namespace,
 				body: jobSpec
 			});
 			console.log(`[DEBUG] Job created successfully: ${finalJobName}`);
+			if (input) {
+				await this.setPodInputSourceOwner(input, inputSourceName, namespace, "batch/v1", "Job", createdJob.metadata!);
+			}
 		} catch (error) {
 			console.error(`[DEBUG] Failed to create job ${finalJobName}:`, error);
+			stopStdinWatch?.();
+			if (input) {
+				await this.deletePodInputSource(input, inputSourceName, namespace);
+			}
 			const errorDetails = error.response?.body || error;
 			throw new NodeOperationError(
 				this.func.getNode(),
@@ -315,13 +805,36 @@ export class K8SClient {
 		}
 
 		try {
-			// Wait for job completion
-			const { status, jobStatus } = await this.waitForJobCompletion(finalJobName, namespace);
+			// Wait for job completion, leaving it to the Job's own deadline when that is longer
+			const { status, jobStatus } = await this.waitForJobCompletion(
+				finalJobName,
+				namespace,
+				Math.max(JOB_TIMEOUT_MS, ((jobOptions.activeDeadlineSeconds ?? 0) + 60) * 1000),
+				stdinFailure.signal
+			);
 
-			// Get job output logs
-			let output: string;
+			// Get the output and termination of the pods the result comes from, and of every pod when asked for
+			let output: any;
+			let podResults: JobPodResult[] = [];
+			let podResult: JobPodResult | undefined;
 			try {
-				output = await this.getJobPodLogs(finalJobName, namespace, "main-container");
+				podResults = await this.getJobPodResults(finalJobName, namespace, "main-container", includeAllPods);
+				if (jobOptions.completionMode === "Indexed") {
+					const indexPods = this.selectJobIndexPods(podResults);
+					if (!includeAllPods) {
+						for (const indexPod of indexPods) {
+							await this.readJobPodOutput(indexPod, namespace, "main-container");
+						}
+					}
+					output = indexPods.map(({ logs, ...indexPod }) => ({ ...indexPod, output: logs }));
+					podResult = indexPods.find((indexPod) => indexPod.exitCode) ?? indexPods[0];
+				} else {
+					podResult = this.selectJobPod(podResults, status === "succeeded");
+					if (podResult && !includeAllPods) {
+						await this.readJobPodOutput(podResult, namespace, "main-container");
+					}
+					output = podResult?.logs ?? `No pods found for job ${finalJobName}`;
+				}
 			} catch (logError) {
 				console.warn(`[DEBUG] Failed to get logs for job ${finalJobName}:`, logError);
 				// If we can't get logs, use job status info
@@ -417,12 +930,29 @@ export class K8SClient {
 				}
 			}
 
-			const result = {
+			const startedAt = ResourceHelper.toTimestamp(jobStatus.startTime);
+			const finishedAt = ResourceHelper.toTimestamp(
+				jobStatus.completionTime ?? podResult?.finishedAt ?? new Date()
+			);
+			const result: JobResult = {
 				jobName: finalJobName,
 				namespace: namespace,
 				status: status === "succeeded" ? "completed" : "failed",
 				jobStatus: status,
 				output: this.formatOutput(output),
+				...(podResult?.stderr !== undefined && { stderr: podResult.stderr }),
+				podName: podResult?.podName,
+				...(podResult?.logsError !== undefined && { logsError: podResult.logsError }),
+				exitCode: podResult?.exitCode,
+				reason: podResult?.reason,
+				startedAt,
+				finishedAt,
+				durationSeconds: ResourceHelper.getDurationSeconds(startedAt, finishedAt),
+				...(includeAllPods && {
+					podsFound: podResults.length,
+					pods: podResults,
+					totalLogs: this.combineJobPodLogs(podResults),
+				}),
 				cleaned: cleanupJob,
 				podsDeleted: cleanupJob ? podsDeleted : 0
 			};
@@ -444,8 +974,26 @@ export class K8SClient {
 				};
 			} else {
 				console.error(`[DEBUG] Error running job ${finalJobName}:`, e);
+				if (stdinFailure.signal.aborted) {
+					// The container waits for its input forever, so the Job cannot finish by itself
+					try {
+						await k8sBatchApi.deleteNamespacedJob({
+							name: finalJobName,
+							namespace,
+							propagationPolicy: "Background"
+						});
+						console.log(`[DEBUG] Job ${finalJobName} deleted after the stdin failure`);
+					} catch (deleteError) {
+						console.warn(`[DEBUG] Failed to delete job ${finalJobName}:`, deleteError);
+					}
+				}
 				throw e;
 			}
+		} finally {
+			stopStdinWatch?.();
+			if (input) {
+				await this.deletePodInputSource(input, inputSourceName, namespace);
+			}
 		}
 	}
 
@@ -454,192 +1002,106 @@ export class K8SClient {
 		kind: string,
 		name: string,
 		namespace: string,
-		patchData: any
+		patchData: any,
+		patchType = "default"
 	): Promise<any> {
-		const kc = this.kubeConfig;
-
 		console.log(`[DEBUG] patchResource called with:`, {
 			apiVersion,
 			kind,
 			name,
 			namespace,
+			patchType,
 			patchData: JSON.stringify(patchData, null, 2)
 		});
 
-		// Create a custom objects API client
-		const customObjectsApi = kc.makeApiClient(k8s.CustomObjectsApi);
+		if (!(patchType in PATCH_STRATEGIES)) {
+			throw new NodeOperationError(this.func.getNode(), `Unsupported patch type: ${patchType}`);
+		}
+		const patchStrategy = PATCH_STRATEGIES[patchType];
 
-		// Handle core resources
-		if (apiVersion === 'v1') {
-			const coreApi = kc.makeApiClient(k8s.CoreV1Api);
-			console.log(`[DEBUG] Using CoreV1Api for ${kind}`);
+		return this.resourceManager.performResourceOperation(
+			'patch',
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			patchData,
+			patchStrategy === k8s.PatchStrategy.ServerSideApply
+				? { patchStrategy, fieldManager: "n8n", force: true }
+				: { patchStrategy }
+		);
+	}
 
-			switch (kind.toLowerCase()) {
-				case 'pod':
-					try {
-						console.log(`[DEBUG] Patching pod ${name} in namespace ${namespace}`);
-						const patchedPod = await coreApi.patchNamespacedPod({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] Pod patch successful:`, patchedPod);
-						return patchedPod;
-					} catch (error) {
-						console.error(`[DEBUG] Pod patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch pod "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'service':
-					try {
-						console.log(`[DEBUG] Patching service ${name} in namespace ${namespace}`);
-						const patchedService = await coreApi.patchNamespacedService({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] Service patch successful:`, patchedService);
-						return patchedService;
-					} catch (error) {
-						console.error(`[DEBUG] Service patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch service "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'configmap':
-					try {
-						console.log(`[DEBUG] Patching configmap ${name} in namespace ${namespace}`);
-						const patchedConfigMap = await coreApi.patchNamespacedConfigMap({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] ConfigMap patch successful:`, patchedConfigMap);
-						return patchedConfigMap;
-					} catch (error) {
-						console.error(`[DEBUG] ConfigMap patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch configmap "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
+	/**
+	 * Replace a resource using its resourceVersion for optimistic concurrency.
+	 * When the version comes from the cluster, conflicts are retried with a fresh read.
+	 */
+	async updateResource(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		updateData: any,
+		options: UpdateOptions = {}
+	): Promise<any> {
+		const { mode = "replace", maxRetries = 3 } = options;
+		console.log(`[DEBUG] updateResource called with:`, {
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			mode,
+			maxRetries
+		});
+
+		// A version given by the user pins the update to that exact state
+		const pinnedVersion: string | undefined = updateData.metadata?.resourceVersion;
+
+		for (let attempt = 0; ; attempt++) {
+			const current = await this.resourceManager.performResourceOperation(
+				'get',
+				apiVersion,
+				kind,
+				name,
+				namespace
+			);
+
+			const body = mode === "merge"
+				? ResourceHelper.mergeObjects(current, updateData)
+				: JSON.parse(JSON.stringify(updateData));
+			body.metadata = {
+				...(body.metadata || {}),
+				resourceVersion: pinnedVersion ?? current.metadata?.resourceVersion
+			};
+
+			try {
+				const updated = await this.resourceManager.performResourceOperation(
+					'replace',
+					apiVersion,
+					kind,
+					name,
+					namespace,
+					body
+				);
+				console.log(`[DEBUG] ${kind} ${name} updated after ${attempt + 1} attempts`);
+				return updated;
+			} catch (error) {
+				if (error.context?.statusCode !== 409) {
+					throw error;
+				}
+				if (pinnedVersion !== undefined) {
 					throw new NodeOperationError(
 						this.func.getNode(),
-						`Unsupported core resource type: ${kind}`
+						`${error.message}. The resource no longer has resourceVersion ${pinnedVersion}.`
 					);
-			}
-		} else if (apiVersion === 'apps/v1') {
-			const appsApi = kc.makeApiClient(k8s.AppsV1Api);
-			console.log(`[DEBUG] Using AppsV1Api for ${kind}`);
-
-			switch (kind.toLowerCase()) {
-				case 'deployment':
-					try {
-						console.log(`[DEBUG] Patching deployment ${name} in namespace ${namespace}`);
-						console.log(`[DEBUG] Patch data:`, JSON.stringify(patchData, null, 2));
-
-						const patchedDeployment = await appsApi.patchNamespacedDeployment({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] Deployment patch successful:`, patchedDeployment);
-						return patchedDeployment;
-					} catch (error) {
-						console.error(`[DEBUG] Deployment patch failed:`, {
-							name,
-							namespace,
-							error: error.message,
-							response: error.response?.body,
-							status: error.response?.statusCode
-						});
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch deployment "${name}" in namespace "${namespace}": ${error.message}. Status: ${error.response?.statusCode}. Details: ${JSON.stringify(error.response?.body || {})}`
-						);
-					}
-				case 'replicaset':
-					try {
-						console.log(`[DEBUG] Patching replicaset ${name} in namespace ${namespace}`);
-						const patchedReplicaSet = await appsApi.patchNamespacedReplicaSet({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] ReplicaSet patch successful:`, patchedReplicaSet);
-						return patchedReplicaSet;
-					} catch (error) {
-						console.error(`[DEBUG] ReplicaSet patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch replicaset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'daemonset':
-					try {
-						console.log(`[DEBUG] Patching daemonset ${name} in namespace ${namespace}`);
-						const patchedDaemonSet = await appsApi.patchNamespacedDaemonSet({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] DaemonSet patch successful:`, patchedDaemonSet);
-						return patchedDaemonSet;
-					} catch (error) {
-						console.error(`[DEBUG] DaemonSet patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch daemonset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'statefulset':
-					try {
-						console.log(`[DEBUG] Patching statefulset ${name} in namespace ${namespace}`);
-						const patchedStatefulSet = await appsApi.patchNamespacedStatefulSet({
-							name: name,
-							namespace: namespace,
-							body: patchData
-						});
-						console.log(`[DEBUG] StatefulSet patch successful:`, patchedStatefulSet);
-						return patchedStatefulSet;
-					} catch (error) {
-						console.error(`[DEBUG] StatefulSet patch failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to patch statefulset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
+				}
+				if (attempt >= maxRetries) {
 					throw new NodeOperationError(
 						this.func.getNode(),
-						`Unsupported apps resource type: ${kind}`
+						`${error.message}. Gave up after ${attempt + 1} attempts.`
 					);
-			}
-		} else {
-			// Handle custom resources
-			try {
-				console.log(`[DEBUG] Using CustomObjectsApi for ${apiVersion}/${kind}`);
-				const [group, version] = apiVersion.split('/');
-				const response = await customObjectsApi.patchNamespacedCustomObject({
-					group: group,
-					version: version,
-					namespace: namespace,
-					plural: kind.toLowerCase() + 's', // Pluralize the kind
-					name: name,
-					body: patchData
-				});
-				console.log(`[DEBUG] Custom resource patch successful:`, response.body);
-				return response.body;
-			} catch (error) {
-				console.error(`[DEBUG] Custom resource patch failed:`, error);
-				throw new NodeOperationError(
-					this.func.getNode(),
-					`Failed to patch custom resource "${name}" in namespace "${namespace}": ${error.message}`
-				);
+				}
+				console.log(`[DEBUG] Conflict updating ${kind} ${name}, retrying (${attempt + 1}/${maxRetries})`);
 			}
 		}
 	}
@@ -650,8 +1112,6 @@ export class K8SClient {
 		name: string,
 		namespace: string
 	): Promise<any> {
-		const kc = this.kubeConfig;
-
 		console.log(`[DEBUG] getResource called with:`, {
 			apiVersion,
 			kind,
@@ -659,417 +1119,927 @@ export class K8SClient {
 			namespace
 		});
 
-		// Handle core resources
-		if (apiVersion === 'v1') {
-			const coreApi = kc.makeApiClient(k8s.CoreV1Api);
-			console.log(`[DEBUG] Using CoreV1Api for ${kind}`);
-
-			switch (kind.toLowerCase()) {
-				case 'pod':
-					try {
-						console.log(`[DEBUG] Getting pod ${name} in namespace ${namespace}`);
-						const pod = await coreApi.readNamespacedPod({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Pod retrieved successfully`);
-						return pod;
-					} catch (error) {
-						console.error(`[DEBUG] Pod retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get pod "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'service':
-					try {
-						console.log(`[DEBUG] Getting service ${name} in namespace ${namespace}`);
-						const service = await coreApi.readNamespacedService({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Service retrieved successfully`);
-						return service;
-					} catch (error) {
-						console.error(`[DEBUG] Service retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get service "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'configmap':
-					try {
-						console.log(`[DEBUG] Getting configmap ${name} in namespace ${namespace}`);
-						const configMap = await coreApi.readNamespacedConfigMap({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] ConfigMap retrieved successfully`);
-						return configMap;
-					} catch (error) {
-						console.error(`[DEBUG] ConfigMap retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get configmap "${name}" in namespace "${namespace}": ${error.message}`
-						);
+		return this.resourceManager.performResourceOperation(
+			'get',
+			apiVersion,
+			kind,
+			name,
+			namespace
+		);
+	}
+
+	async listResources(
+		apiVersion: string,
+		kind: string,
+		namespace: string,
+		options: ListOptions = {}
+	): Promise<any> {
+		console.log(`[DEBUG] listResources called with:`, {
+			apiVersion,
+			kind,
+			namespace,
+			options
+		});
+
+		const pageSize = 500;
+		const items: any[] = [];
+		let continueToken: string | undefined;
+		let list: any;
+
+		// Follow continue tokens until everything (or the requested limit) is fetched
+		do {
+			const remaining = options.limit ? options.limit - items.length : undefined;
+			list = await this.resourceManager.performResourceOperation(
+				'list',
+				apiVersion,
+				kind,
+				undefined,
+				options.allNamespaces ? undefined : namespace,
+				undefined,
+				{
+					labelSelector: options.labelSelector || undefined,
+					fieldSelector: options.fieldSelector || undefined,
+					limit: remaining !== undefined ? Math.min(pageSize, remaining) : pageSize,
+					continueToken
+				}
+			);
+
+			items.push(...(list.items || []));
+			continueToken = list.metadata?._continue ?? list.metadata?.continue;
+			console.log(`[DEBUG] Fetched ${list.items?.length || 0} ${kind} resources, ${items.length} in total`);
+		} while (continueToken && (!options.limit || items.length < options.limit));
+
+		list.items = items;
+		console.log(`[DEBUG] ${kind} listed successfully, found ${items.length} resources`);
+		return list;
+	}
+
+	async deleteResource(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		options: DeleteOptions = {}
+	): Promise<any> {
+		console.log(`[DEBUG] deleteResource called with:`, {
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			options
+		});
+
+		const response = await this.resourceManager.performResourceOperation(
+			'delete',
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			undefined,
+			{
+				propagationPolicy: options.propagationPolicy,
+				gracePeriodSeconds: options.gracePeriodSeconds
+			}
+		);
+		console.log(`[DEBUG] Delete request accepted for ${kind} ${name}`);
+
+		// Most resources answer with the object being deleted rather than a Status,
+		// so build an equivalent Status to keep the output shape consistent
+		const status = response?.kind === 'Status'
+			? response
+			: {
+				apiVersion: 'v1',
+				kind: 'Status',
+				status: 'Success',
+				details: {
+					name,
+					kind
+				}
+			};
+
+		if (options.waitForDeletion) {
+			await this.waitForResourceDeletion(
+				apiVersion,
+				kind,
+				name,
+				namespace,
+				options.timeout
+			);
+		}
+
+		return status;
+	}
+
+	async waitForResourceDeletion(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		timeout = 300000 // 5 minutes default timeout
+	): Promise<void> {
+		const watch = new k8s.Watch(this.kubeConfig);
+
+		console.log(`[DEBUG] Starting wait for ${kind}/${name} to be deleted`);
+
+		// Read the object first so the watch starts from a known resourceVersion
+		// and does not miss a deletion that happens in between
+		const current = await this.resourceManager.readResourceIfExists(
+			apiVersion,
+			kind,
+			name,
+			namespace
+		);
+		if (!current) {
+			console.log(`[DEBUG] Resource ${kind}/${name} is already gone`);
+			return;
+		}
+		const resourceVersion = current.metadata?.resourceVersion;
+		const watchPath = await this.resourceManager.buildWatchPath(apiVersion, kind, namespace);
+
+		return new Promise(async (resolve, reject) => {
+			let timeoutId: NodeJS.Timeout;
+			let watchReq: any;
+			let resourceDeleted = false;
+
+			const { safeResolve, safeReject } = OutputHelper.createSafePromiseHandlers(resolve, reject);
+
+			const clearTimeoutIfNeeded = () => {
+				if (timeoutId) {
+					clearTimeout(timeoutId);
+				}
+			};
+
+			// Set timeout
+			timeoutId = setTimeout(() => {
+				if (!resourceDeleted) {
+					console.log(`[DEBUG] Timeout reached waiting for ${kind}/${name} deletion, aborting watch`);
+					if (watchReq) {
+						watchReq.abort();
 					}
-				case 'secret':
-					try {
-						console.log(`[DEBUG] Getting secret ${name} in namespace ${namespace}`);
-						const secret = await coreApi.readNamespacedSecret({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Secret retrieved successfully`);
-						return secret;
-					} catch (error) {
-						console.error(`[DEBUG] Secret retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get secret "${name}" in namespace "${namespace}": ${error.message}`
-						);
+					safeReject(new Error(`Timeout waiting for ${kind}/${name} to be deleted`));
+				}
+			}, timeout);
+
+			try {
+				watchReq = await watch.watch(
+					watchPath,
+					{
+						fieldSelector: `metadata.name=${name}`,
+						resourceVersion
+					},
+					(type, obj: any) => {
+						if (type !== 'DELETED' || obj.metadata?.name !== name) {
+							return;
+						}
+
+						resourceDeleted = true;
+						clearTimeoutIfNeeded();
+
+						console.log(`[DEBUG] Resource ${kind}/${name} deleted`);
+
+						// Abort the watch after resolving to avoid race conditions
+						setTimeout(() => {
+							if (watchReq) {
+								watchReq.abort();
+							}
+						}, 100);
+
+						safeResolve(undefined);
+					},
+					(err) => {
+						if (this.isExpectedAbortError(err, resourceDeleted)) {
+							console.log(`[DEBUG] Deletion watch aborted for ${kind}/${name} after deletion (expected)`);
+							return;
+						}
+						console.error(`[DEBUG] Deletion watch error for ${kind}/${name}:`, err);
+						clearTimeoutIfNeeded();
+						safeReject(err);
 					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported core resource type: ${kind}`
-					);
+				);
+			} catch (error) {
+				clearTimeoutIfNeeded();
+				safeReject(error);
 			}
-		} else if (apiVersion === 'apps/v1') {
-			const appsApi = kc.makeApiClient(k8s.AppsV1Api);
-			console.log(`[DEBUG] Using AppsV1Api for ${kind}`);
+		});
+	}
 
-			switch (kind.toLowerCase()) {
-				case 'deployment':
-					try {
-						console.log(`[DEBUG] Getting deployment ${name} in namespace ${namespace}`);
-						const deployment = await appsApi.readNamespacedDeployment({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Deployment retrieved successfully`);
-						return deployment;
-					} catch (error) {
-						console.error(`[DEBUG] Deployment retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get deployment "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'replicaset':
-					try {
-						console.log(`[DEBUG] Getting replicaset ${name} in namespace ${namespace}`);
-						const replicaSet = await appsApi.readNamespacedReplicaSet({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] ReplicaSet retrieved successfully`);
-						return replicaSet;
-					} catch (error) {
-						console.error(`[DEBUG] ReplicaSet retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get replicaset "${name}" in namespace "${namespace}": ${error.message}`
-						);
+	/**
+	 * Watch a resource kind until stopped, reconnecting whenever the server ends the watch.
+	 * Without a resourceVersion the watch starts from the current state, so existing objects
+	 * are not reported as ADDED. Bookmarks keep the resourceVersion fresh between events.
+	 * @returns Function that stops the watch
+	 */
+	async watchResources(
+		apiVersion: string,
+		kind: string,
+		namespace: string,
+		options: WatchOptions,
+		onEvent: (type: string, obj: any) => void
+	): Promise<() => void> {
+		const watch = new k8s.Watch(this.kubeConfig);
+		const targetNamespace = options.allNamespaces ? undefined : namespace;
+		const watchPath = await this.resourceManager.buildWatchPath(apiVersion, kind, targetNamespace || "");
+		const selectors = {
+			labelSelector: options.labelSelector || undefined,
+			fieldSelector: options.fieldSelector || undefined
+		};
+
+		const getCurrentResourceVersion = async (): Promise<string | undefined> => {
+			const list = await this.resourceManager.performResourceOperation(
+				'list',
+				apiVersion,
+				kind,
+				undefined,
+				targetNamespace,
+				undefined,
+				{ ...selectors, limit: 1 }
+			);
+			return list.metadata?.resourceVersion;
+		};
+
+		let resourceVersion: string | undefined = options.resourceVersion;
+		let stopped = false;
+		let watchReq: AbortController | undefined;
+		let retryTimer: NodeJS.Timeout | undefined;
+		let failures = 0;
+
+		const setResourceVersion = (value?: string) => {
+			if (value && value !== resourceVersion) {
+				resourceVersion = value;
+				options.onResourceVersion?.(value);
+			}
+		};
+
+		const reconnect = (delay: number) => {
+			if (!stopped) {
+				retryTimer = setTimeout(connect, delay);
+			}
+		};
+
+		const connect = async () => {
+			// Set when the server reports that resourceVersion is too old to resume from
+			let expired = false;
+			try {
+				if (!resourceVersion) {
+					setResourceVersion(await getCurrentResourceVersion());
+				}
+				console.log(`[DEBUG] Watching ${kind} at ${watchPath} from resourceVersion ${resourceVersion}`);
+				watchReq = await watch.watch(
+					watchPath,
+					{ ...selectors, resourceVersion, allowWatchBookmarks: true },
+					(type, obj: any) => {
+						if (type === 'ERROR') {
+							console.error(`[DEBUG] Watch error event for ${kind}:`, obj?.message);
+							expired = expired || obj?.code === 410;
+							return;
+						}
+						failures = 0;
+						setResourceVersion(obj?.metadata?.resourceVersion);
+						if (type !== 'BOOKMARK') {
+							onEvent(type, obj);
+						}
+					},
+					(err) => {
+						if (stopped) {
+							return;
+						}
+						if (expired || err?.statusCode === 410) {
+							// Events in the gap are lost, start again from the current state
+							console.log(`[DEBUG] resourceVersion ${resourceVersion} of ${kind} expired, restarting watch`);
+							resourceVersion = undefined;
+							reconnect(0);
+						} else if (err) {
+							failures++;
+							console.error(`[DEBUG] Watch for ${kind} failed, retry ${failures}:`, err);
+							reconnect(Math.min(1000 * 2 ** failures, 30000));
+						} else {
+							console.log(`[DEBUG] Watch for ${kind} closed by the server, reconnecting`);
+							reconnect(1000);
+						}
 					}
-				case 'daemonset':
-					try {
-						console.log(`[DEBUG] Getting daemonset ${name} in namespace ${namespace}`);
-						const daemonSet = await appsApi.readNamespacedDaemonSet({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] DaemonSet retrieved successfully`);
-						return daemonSet;
-					} catch (error) {
-						console.error(`[DEBUG] DaemonSet retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get daemonset "${name}" in namespace "${namespace}": ${error.message}`
-						);
+				);
+			} catch (error) {
+				failures++;
+				console.error(`[DEBUG] Could not start watch for ${kind}, retry ${failures}:`, error);
+				reconnect(Math.min(1000 * 2 ** failures, 30000));
+			}
+		};
+
+		// Fail fast on a bad kind, namespace or selector before going into the retry loop
+		if (!resourceVersion) {
+			setResourceVersion(await getCurrentResourceVersion());
+		}
+		await connect();
+
+		return () => {
+			stopped = true;
+			if (retryTimer) {
+				clearTimeout(retryTimer);
+			}
+			watchReq?.abort();
+			console.log(`[DEBUG] Stopped watching ${kind}`);
+		};
+	}
+
+	/**
+	 * Wait until a resource satisfies a predicate, watching from the
+	 * resourceVersion it was read at so no update is missed
+	 * @param apiVersion API version
+	 * @param kind Resource type
+	 * @param name Resource name
+	 * @param namespace Namespace
+	 * @param isDone Predicate checked against every version of the object
+	 * @param description What is waited for, used in messages
+	 * @param timeout Timeout in milliseconds
+	 * @returns The object that satisfied the predicate
+	 */
+	async waitForResourceState(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		isDone: (obj: any) => boolean,
+		description: string,
+		timeout = 300000 // 5 minutes default timeout
+	): Promise<any> {
+		const watch = new k8s.Watch(this.kubeConfig);
+
+		console.log(`[DEBUG] Starting wait for ${kind}/${name} to ${description}`);
+
+		const current = await this.getResource(apiVersion, kind, name, namespace);
+		if (isDone(current)) {
+			console.log(`[DEBUG] Resource ${kind}/${name} already done: ${description}`);
+			return current;
+		}
+		const watchPath = await this.resourceManager.buildWatchPath(apiVersion, kind, namespace);
+
+		return new Promise(async (resolve, reject) => {
+			let timeoutId: NodeJS.Timeout;
+			let watchReq: any;
+			let completed = false;
+			let latest = current;
+
+			const { safeResolve, safeReject } = OutputHelper.createSafePromiseHandlers(resolve, reject);
+
+			const clearTimeoutIfNeeded = () => {
+				if (timeoutId) {
+					clearTimeout(timeoutId);
+				}
+			};
+
+			timeoutId = setTimeout(() => {
+				if (!completed) {
+					console.log(`[DEBUG] Timeout reached waiting for ${kind}/${name} to ${description}, aborting watch`);
+					if (watchReq) {
+						watchReq.abort();
 					}
-				case 'statefulset':
-					try {
-						console.log(`[DEBUG] Getting statefulset ${name} in namespace ${namespace}`);
-						const statefulSet = await appsApi.readNamespacedStatefulSet({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] StatefulSet retrieved successfully`);
-						return statefulSet;
-					} catch (error) {
-						console.error(`[DEBUG] StatefulSet retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get statefulset "${name}" in namespace "${namespace}": ${error.message}`
-						);
+					this.buildTimeoutError(
+						`Timeout waiting for ${kind}/${name} to ${description}`,
+						kind,
+						name,
+						namespace,
+						latest
+					).then((error) => {
+						// Let callers report how far the resource got
+						error.context.lastState = latest;
+						safeReject(error);
+					});
+				}
+			}, timeout);
+
+			try {
+				watchReq = await watch.watch(
+					watchPath,
+					{
+						fieldSelector: `metadata.name=${name}`,
+						resourceVersion: current.metadata?.resourceVersion
+					},
+					(type, obj: any) => {
+						if (obj.metadata?.name !== name) {
+							return;
+						}
+						if (type === 'DELETED') {
+							clearTimeoutIfNeeded();
+							safeReject(new NodeOperationError(
+								this.func.getNode(),
+								`${kind}/${name} was deleted while waiting for it to ${description}`
+							));
+							return;
+						}
+						latest = obj;
+						if (!isDone(obj)) {
+							return;
+						}
+
+						completed = true;
+						clearTimeoutIfNeeded();
+
+						console.log(`[DEBUG] Resource ${kind}/${name} done: ${description}`);
+
+						// Abort the watch after resolving to avoid race conditions
+						setTimeout(() => {
+							if (watchReq) {
+								watchReq.abort();
+							}
+						}, 100);
+
+						safeResolve(obj);
+					},
+					(err) => {
+						if (this.isExpectedAbortError(err, completed)) {
+							console.log(`[DEBUG] Watch aborted for ${kind}/${name} after completion (expected)`);
+							return;
+						}
+						console.error(`[DEBUG] Watch error for ${kind}/${name}:`, err);
+						clearTimeoutIfNeeded();
+						safeReject(err);
 					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported apps resource type: ${kind}`
-					);
+				);
+			} catch (error) {
+				clearTimeoutIfNeeded();
+				safeReject(error);
 			}
-		} else if (apiVersion === 'batch/v1') {
-			const batchApi = kc.makeApiClient(k8s.BatchV1Api);
-			console.log(`[DEBUG] Using BatchV1Api for ${kind}`);
+		});
+	}
 
-			switch (kind.toLowerCase()) {
-				case 'job':
-					try {
-						console.log(`[DEBUG] Getting job ${name} in namespace ${namespace}`);
-						const job = await batchApi.readNamespacedJob({
-							name: name,
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Job retrieved successfully`);
-						return job;
-					} catch (error) {
-						console.error(`[DEBUG] Job retrieval failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to get job "${name}" in namespace "${namespace}": ${error.message}`
-						);
+	/**
+	 * Scale a resource through its scale subresource
+	 * @param apiVersion API version
+	 * @param kind Resource type
+	 * @param name Resource name
+	 * @param namespace Namespace
+	 * @param replicas Absolute replica count, or a relative change such as "+2" or "-1"
+	 * @param waitForReady Whether to wait until readyReplicas matches the new count
+	 * @param timeout Timeout in milliseconds
+	 * @returns Previous and new replica counts
+	 */
+	async scaleResource(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		replicas: string,
+		waitForReady = false,
+		timeout = 300000
+	): Promise<ScaleResult> {
+		console.log(`[DEBUG] scaleResource called with:`, {
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			replicas,
+			waitForReady
+		});
+
+		const value = String(replicas).trim();
+		if (!/^[+-]?\d+$/.test(value)) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Invalid replicas value "${replicas}". Use a number such as 3, or a relative change such as +2 or -1.`
+			);
+		}
+
+		const scale = await this.resourceManager.scaleResource(apiVersion, kind, name, namespace);
+		const previousReplicas: number = scale.spec?.replicas ?? 0;
+		const relative = value.startsWith("+") || value.startsWith("-");
+		const newReplicas = relative ? previousReplicas + parseInt(value, 10) : parseInt(value, 10);
+		if (newReplicas < 0) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Cannot scale ${kind}/${name} to ${newReplicas} replicas (currently ${previousReplicas})`
+			);
+		}
+
+		if (newReplicas !== previousReplicas) {
+			await this.resourceManager.scaleResource(apiVersion, kind, name, namespace, newReplicas);
+		}
+		console.log(`[DEBUG] Scaled ${kind}/${name} from ${previousReplicas} to ${newReplicas} replicas`);
+
+		const result: ScaleResult = {
+			kind,
+			name,
+			namespace,
+			previousReplicas,
+			newReplicas
+		};
+
+		if (waitForReady) {
+			const countReady = await this.getReadyReplicaCounter(apiVersion, kind);
+			const ready = await this.waitForResourceState(
+				apiVersion,
+				kind,
+				name,
+				namespace,
+				(obj) => countReady(obj) === newReplicas,
+				`have ${newReplicas} ready replicas`,
+				timeout
+			);
+			result.readyReplicas = countReady(ready);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Count the ready replicas of a scaled object. Custom resources without readyReplicas
+	 * in their status are counted by the statusReplicasPath of their scale subresource.
+	 * @param apiVersion API version
+	 * @param kind Resource type
+	 * @returns Function reading the count from an object
+	 */
+	private async getReadyReplicaCounter(apiVersion: string, kind: string): Promise<(obj: any) => number> {
+		const resource = await this.resourceManager.resolveResource(apiVersion, kind);
+		// Zero ready replicas are omitted from the status of built-in workloads
+		if (resource.group === "" || resource.group === "apps") {
+			return (obj) => obj.status?.readyReplicas ?? 0;
+		}
+
+		let statusReplicasPath = ".status.replicas";
+		try {
+			const crd = await this.getResource(
+				"apiextensions.k8s.io/v1",
+				"CustomResourceDefinition",
+				`${resource.plural}.${resource.group}`,
+				""
+			);
+			const version = (crd.spec?.versions || []).find((item: any) => item.name === resource.version);
+			statusReplicasPath = version?.subresources?.scale?.statusReplicasPath || statusReplicasPath;
+		} catch (error) {
+			console.log(`[DEBUG] Could not read the definition of ${kind}, counting ${statusReplicasPath}: ${error.message}`);
+		}
+
+		const path = statusReplicasPath.split(".").filter(Boolean);
+		return (obj) => obj.status?.readyReplicas ?? path.reduce((value: any, key) => value?.[key], obj) ?? 0;
+	}
+
+	/**
+	 * Restart the pods of a workload by bumping the restartedAt template
+	 * annotation, like `kubectl rollout restart`
+	 * @param kind Workload kind (Deployment, StatefulSet or DaemonSet)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @param wait Whether to wait for the rollout to finish
+	 * @param timeout Timeout in milliseconds
+	 * @returns Restart time and rollout status
+	 */
+	async rolloutRestart(
+		kind: string,
+		name: string,
+		namespace: string,
+		wait = false,
+		timeout = 300000
+	): Promise<any> {
+		console.log(`[DEBUG] rolloutRestart called with:`, { kind, name, namespace, wait });
+
+		const restartedAt = new Date().toISOString();
+		const patched = await this.resourceManager.performResourceOperation(
+			'patch',
+			'apps/v1',
+			kind,
+			name,
+			namespace,
+			{
+				spec: {
+					template: {
+						metadata: {
+							annotations: { [RESTARTED_AT_ANNOTATION]: restartedAt }
+						}
 					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported batch resource type: ${kind}`
-					);
+				}
 			}
+		);
+
+		return {
+			kind,
+			name,
+			namespace,
+			restartedAt,
+			...(wait
+				? await this.waitForRollout(kind, name, namespace, timeout)
+				: ResourceHelper.getRolloutStatus(patched))
+		};
+	}
+
+	/**
+	 * Get the rollout status of a workload, like `kubectl rollout status`
+	 * @param kind Workload kind (Deployment, StatefulSet or DaemonSet)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @param wait Whether to wait for the rollout to finish
+	 * @param timeout Timeout in milliseconds
+	 * @returns Rollout status
+	 */
+	async rolloutStatus(
+		kind: string,
+		name: string,
+		namespace: string,
+		wait = true,
+		timeout = 300000
+	): Promise<any> {
+		console.log(`[DEBUG] rolloutStatus called with:`, { kind, name, namespace, wait });
+
+		if (wait) {
+			return { kind, name, namespace, ...(await this.waitForRollout(kind, name, namespace, timeout)) };
+		}
+		const workload = await this.getResource('apps/v1', kind, name, namespace);
+		return { kind, name, namespace, ...ResourceHelper.getRolloutStatus(workload) };
+	}
+
+	/**
+	 * List the revisions of a workload, like `kubectl rollout history`
+	 * @param kind Workload kind (Deployment, StatefulSet or DaemonSet)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @returns Revisions with their images, oldest first
+	 */
+	async rolloutHistory(kind: string, name: string, namespace: string): Promise<any> {
+		console.log(`[DEBUG] rolloutHistory called with:`, { kind, name, namespace });
+
+		const workload = await this.getResource('apps/v1', kind, name, namespace);
+		const revisions = await this.getRolloutRevisions(workload);
+		const currentRevision = revisions.length ? revisions[revisions.length - 1].revision : undefined;
+
+		return {
+			kind,
+			name,
+			namespace,
+			currentRevision,
+			revisions: revisions.map((revision) => ({
+				revision: revision.revision,
+				name: revision.name,
+				createdAt: revision.createdAt,
+				changeCause: revision.changeCause,
+				images: (revision.template?.spec?.containers || []).map((container: any) => ({
+					container: container.name,
+					image: container.image
+				})),
+				current: revision.revision === currentRevision
+			}))
+		};
+	}
+
+	/**
+	 * Roll a workload back to an earlier revision, like `kubectl rollout undo`
+	 * @param kind Workload kind (Deployment, StatefulSet or DaemonSet)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @param toRevision Revision to roll back to, 0 for the previous one
+	 * @param wait Whether to wait for the rollout to finish
+	 * @param timeout Timeout in milliseconds
+	 * @returns Previous and target revision and rollout status
+	 */
+	async rolloutUndo(
+		kind: string,
+		name: string,
+		namespace: string,
+		toRevision = 0,
+		wait = false,
+		timeout = 300000
+	): Promise<any> {
+		console.log(`[DEBUG] rolloutUndo called with:`, { kind, name, namespace, toRevision, wait });
+
+		const workload = await this.getResource('apps/v1', kind, name, namespace);
+		const revisions = await this.getRolloutRevisions(workload);
+		if (revisions.length === 0) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`No rollout history found for ${kind}/${name}`
+			);
+		}
+
+		const current = revisions[revisions.length - 1];
+		const target = toRevision
+			? revisions.find((revision) => revision.revision === toRevision)
+			: revisions[revisions.length - 2];
+		if (!target) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				toRevision
+					? `Revision ${toRevision} not found in the rollout history of ${kind}/${name}`
+					: `No previous revision found in the rollout history of ${kind}/${name}`
+			);
+		}
+
+		const result: any = {
+			kind,
+			name,
+			namespace,
+			fromRevision: current.revision,
+			toRevision: target.revision
+		};
+
+		if (target.revision === current.revision) {
+			return { ...result, rolledBack: false, message: `Already at revision ${target.revision}` };
+		}
+
+		if (kind === 'Deployment') {
+			// Replace the whole pod template, without the label the ReplicaSet adds
+			const template = JSON.parse(JSON.stringify(target.template));
+			delete template.metadata?.labels?.['pod-template-hash'];
+			await this.resourceManager.performResourceOperation(
+				'patch',
+				'apps/v1',
+				kind,
+				name,
+				namespace,
+				[{ op: 'replace', path: '/spec/template', value: template }],
+				{ patchStrategy: k8s.PatchStrategy.JsonPatch }
+			);
 		} else {
-			// Handle custom resources
-			try {
-				console.log(`[DEBUG] Using CustomObjectsApi for ${apiVersion}/${kind}`);
-				const customObjectsApi = kc.makeApiClient(k8s.CustomObjectsApi);
-				const [group, version] = apiVersion.split('/');
-				console.log(`[DEBUG] Getting custom resource ${name} in namespace ${namespace} (group: ${group}, version: ${version})`);
-
-				const response = await customObjectsApi.getNamespacedCustomObject({
-					group: group,
-					version: version,
-					namespace: namespace,
-					plural: kind.toLowerCase() + 's', // Pluralize the kind
-					name: name
-				});
-				console.log(`[DEBUG] Custom resource retrieved successfully`);
-				return response.body;
-			} catch (error) {
-				console.error(`[DEBUG] Custom resource retrieval failed:`, error);
-				throw new NodeOperationError(
-					this.func.getNode(),
-					`Failed to get custom resource "${name}" in namespace "${namespace}": ${error.message}`
-				);
-			}
+			// ControllerRevision data is a strategic merge patch of the workload
+			await this.resourceManager.performResourceOperation(
+				'patch',
+				'apps/v1',
+				kind,
+				name,
+				namespace,
+				target.data,
+				{ patchStrategy: k8s.PatchStrategy.StrategicMergePatch }
+			);
 		}
+		console.log(`[DEBUG] Rolled ${kind}/${name} back to revision ${target.revision}`);
+
+		return {
+			...result,
+			rolledBack: true,
+			...(wait ? await this.waitForRollout(kind, name, namespace, timeout) : {})
+		};
 	}
 
-	async listResources(
-		apiVersion: string,
+	/**
+	 * Set the image of one or all containers of a workload, like `kubectl set image`
+	 * @param kind Workload kind (Deployment, StatefulSet, DaemonSet or CronJob)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @param image New image
+	 * @param containerName Container to update, all containers (including init containers) when empty
+	 * @param wait Whether to wait for the rollout to finish (Deployments, StatefulSets and DaemonSets)
+	 * @param timeout Timeout in milliseconds
+	 * @returns Old and new image per container, and the rollout status when waiting
+	 */
+	async setImage(
 		kind: string,
-		namespace: string
+		name: string,
+		namespace: string,
+		image: string,
+		containerName?: string,
+		wait = false,
+		timeout = 300000
 	): Promise<any> {
-		const kc = this.kubeConfig;
-
-		console.log(`[DEBUG] listResources called with:`, {
-			apiVersion,
-			kind,
-			namespace
-		});
+		console.log(`[DEBUG] setImage called with:`, { kind, name, namespace, image, containerName, wait });
 
-		// Handle core resources
-		if (apiVersion === 'v1') {
-			const coreApi = kc.makeApiClient(k8s.CoreV1Api);
-			console.log(`[DEBUG] Using CoreV1Api for ${kind}`);
+		if (kind === "Job") {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				"The pod template of a Job cannot be changed, create a new Job with the image instead"
+			);
+		}
+		const apiVersion = WORKLOAD_API_VERSIONS[kind];
+		if (!apiVersion) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Setting the image is not supported for kind ${kind}`
+			);
+		}
 
-			switch (kind.toLowerCase()) {
-				case 'pod':
-					try {
-						console.log(`[DEBUG] Listing pods in namespace ${namespace}`);
-						const pods = await coreApi.listNamespacedPod({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Pods listed successfully, found ${pods.items?.length || 0} pods`);
-						return pods;
-					} catch (error) {
-						console.error(`[DEBUG] Pod listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list pods in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'service':
-					try {
-						console.log(`[DEBUG] Listing services in namespace ${namespace}`);
-						const services = await coreApi.listNamespacedService({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Services listed successfully, found ${services.items?.length || 0} services`);
-						return services;
-					} catch (error) {
-						console.error(`[DEBUG] Service listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list services in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'configmap':
-					try {
-						console.log(`[DEBUG] Listing configmaps in namespace ${namespace}`);
-						const configMaps = await coreApi.listNamespacedConfigMap({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] ConfigMaps listed successfully, found ${configMaps.items?.length || 0} configmaps`);
-						return configMaps;
-					} catch (error) {
-						console.error(`[DEBUG] ConfigMap listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list configmaps in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'secret':
-					try {
-						console.log(`[DEBUG] Listing secrets in namespace ${namespace}`);
-						const secrets = await coreApi.listNamespacedSecret({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Secrets listed successfully, found ${secrets.items?.length || 0} secrets`);
-						return secrets;
-					} catch (error) {
-						console.error(`[DEBUG] Secret listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list secrets in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported core resource type: ${kind}`
-					);
+		const workload = await this.getResource(apiVersion, kind, name, namespace);
+		const podSpecOf = (obj: any) =>
+			kind === 'CronJob' ? obj.spec?.jobTemplate?.spec?.template?.spec : obj.spec?.template?.spec;
+		const podSpec = podSpecOf(workload) || {};
+
+		const changes: any[] = [];
+		for (const field of ['initContainers', 'containers']) {
+			for (const container of podSpec[field] || []) {
+				if (!containerName || container.name === containerName) {
+					changes.push({
+						container: container.name,
+						initContainer: field === 'initContainers',
+						oldImage: container.image,
+						newImage: image,
+						changed: container.image !== image
+					});
+				}
 			}
-		} else if (apiVersion === 'apps/v1') {
-			const appsApi = kc.makeApiClient(k8s.AppsV1Api);
-			console.log(`[DEBUG] Using AppsV1Api for ${kind}`);
+		}
+		if (changes.length === 0) {
+			const available = [...(podSpec.initContainers || []), ...(podSpec.containers || [])]
+				.map((container: any) => container.name)
+				.join(', ');
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Container "${containerName}" not found in ${kind}/${name}. Available containers: ${available}`
+			);
+		}
 
-			switch (kind.toLowerCase()) {
-				case 'deployment':
-					try {
-						console.log(`[DEBUG] Listing deployments in namespace ${namespace}`);
-						const deployments = await appsApi.listNamespacedDeployment({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Deployments listed successfully, found ${deployments.items?.length || 0} deployments`);
-						return deployments;
-					} catch (error) {
-						console.error(`[DEBUG] Deployment listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list deployments in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'replicaset':
-					try {
-						console.log(`[DEBUG] Listing replicasets in namespace ${namespace}`);
-						const replicaSets = await appsApi.listNamespacedReplicaSet({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] ReplicaSets listed successfully, found ${replicaSets.items?.length || 0} replicasets`);
-						return replicaSets;
-					} catch (error) {
-						console.error(`[DEBUG] ReplicaSet listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list replicasets in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'daemonset':
-					try {
-						console.log(`[DEBUG] Listing daemonsets in namespace ${namespace}`);
-						const daemonSets = await appsApi.listNamespacedDaemonSet({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] DaemonSets listed successfully, found ${daemonSets.items?.length || 0} daemonsets`);
-						return daemonSets;
-					} catch (error) {
-						console.error(`[DEBUG] DaemonSet listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list daemonsets in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'statefulset':
-					try {
-						console.log(`[DEBUG] Listing statefulsets in namespace ${namespace}`);
-						const statefulSets = await appsApi.listNamespacedStatefulSet({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] StatefulSets listed successfully, found ${statefulSets.items?.length || 0} statefulsets`);
-						return statefulSets;
-					} catch (error) {
-						console.error(`[DEBUG] StatefulSet listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list statefulsets in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported apps resource type: ${kind}`
-					);
+		// Strategic merge patch merges container lists by name
+		const patchedPodSpec: any = {};
+		for (const field of ['initContainers', 'containers']) {
+			const containers = changes
+				.filter((change) => change.initContainer === (field === 'initContainers'))
+				.map((change) => ({ name: change.container, image }));
+			if (containers.length) {
+				patchedPodSpec[field] = containers;
 			}
-		} else if (apiVersion === 'batch/v1') {
-			const batchApi = kc.makeApiClient(k8s.BatchV1Api);
-			console.log(`[DEBUG] Using BatchV1Api for ${kind}`);
+		}
+		const template = { spec: patchedPodSpec };
+		const patch = kind === 'CronJob'
+			? { spec: { jobTemplate: { spec: { template } } } }
+			: { spec: { template } };
+
+		if (changes.some((change) => change.changed)) {
+			await this.resourceManager.performResourceOperation(
+				'patch',
+				apiVersion,
+				kind,
+				name,
+				namespace,
+				patch,
+				{ patchStrategy: k8s.PatchStrategy.StrategicMergePatch }
+			);
+			console.log(`[DEBUG] Updated image of ${changes.length} containers in ${kind}/${name}`);
+		} else {
+			console.log(`[DEBUG] ${kind}/${name} already uses image ${image}`);
+		}
 
-			switch (kind.toLowerCase()) {
-				case 'job':
-					try {
-						console.log(`[DEBUG] Listing jobs in namespace ${namespace}`);
-						const jobs = await batchApi.listNamespacedJob({
-							namespace: namespace
-						});
-						console.log(`[DEBUG] Jobs listed successfully, found ${jobs.items?.length || 0} jobs`);
-						return jobs;
-					} catch (error) {
-						console.error(`[DEBUG] Job listing failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to list jobs in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported batch resource type: ${kind}`
-					);
+		const result: any = { kind, name, namespace, containers: changes };
+		if (wait && ['Deployment', 'StatefulSet', 'DaemonSet'].includes(kind)) {
+			result.rollout = await this.waitForRollout(kind, name, namespace, timeout);
+		}
+		return result;
+	}
+
+	/**
+	 * Wait until the rollout of a workload has finished
+	 * @param kind Workload kind (Deployment, StatefulSet or DaemonSet)
+	 * @param name Workload name
+	 * @param namespace Namespace
+	 * @param timeout Timeout in milliseconds
+	 * @returns Final rollout status
+	 */
+	async waitForRollout(
+		kind: string,
+		name: string,
+		namespace: string,
+		timeout = 300000
+	): Promise<RolloutStatus> {
+		let workload: any;
+		try {
+			workload = await this.waitForResourceState(
+				'apps/v1',
+				kind,
+				name,
+				namespace,
+				(obj) => {
+					const status = ResourceHelper.getRolloutStatus(obj);
+					return status.done || !!status.failed;
+				},
+				'finish its rollout',
+				timeout
+			);
+		} catch (error) {
+			if (error.context?.lastState) {
+				error.message += `: ${ResourceHelper.getRolloutStatus(error.context.lastState).message}`;
 			}
+			throw error;
+		}
+
+		const status = ResourceHelper.getRolloutStatus(workload);
+		if (status.failed) {
+			throw new NodeOperationError(this.func.getNode(), status.message);
+		}
+		return status;
+	}
+
+	// Collect the ReplicaSets or ControllerRevisions owned by a workload, oldest first
+	private async getRolloutRevisions(workload: any): Promise<RolloutRevision[]> {
+		const namespace = workload.metadata.namespace;
+		const labelSelector = ResourceHelper.formatLabelSelector(workload.spec?.selector);
+		const ownedByWorkload = (obj: any) =>
+			(obj.metadata?.ownerReferences || []).some((ref: any) => ref.uid === workload.metadata.uid);
+
+		let revisions: RolloutRevision[];
+		if (workload.kind === 'Deployment') {
+			const list = await this.listResources('apps/v1', 'ReplicaSet', namespace, { labelSelector });
+			revisions = list.items.filter(ownedByWorkload).map((replicaSet: any) => ({
+				revision: parseInt(replicaSet.metadata.annotations?.[DEPLOYMENT_REVISION_ANNOTATION] || '0', 10),
+				name: replicaSet.metadata.name,
+				createdAt: replicaSet.metadata.creationTimestamp,
+				changeCause: replicaSet.metadata.annotations?.[CHANGE_CAUSE_ANNOTATION],
+				template: replicaSet.spec?.template
+			}));
 		} else {
-			// Handle custom resources
-			try {
-				console.log(`[DEBUG] Using CustomObjectsApi for ${apiVersion}/${kind}`);
-				const customObjectsApi = kc.makeApiClient(k8s.CustomObjectsApi);
-				const [group, version] = apiVersion.split('/');
-				console.log(`[DEBUG] Listing custom resources in namespace ${namespace} (group: ${group}, version: ${version})`);
-
-				const response = await customObjectsApi.listNamespacedCustomObject({
-					group: group,
-					version: version,
-					namespace: namespace,
-					plural: kind.toLowerCase() + 's' // Pluralize the kind
-				});
-				console.log(`[DEBUG] Custom resources listed successfully, found ${(response.body as any).items?.length || 0} resources`);
-				return response.body;
-			} catch (error) {
-				console.error(`[DEBUG] Custom resource listing failed:`, error);
-				throw new NodeOperationError(
-					this.func.getNode(),
-					`Failed to list custom resources in namespace "${namespace}": ${error.message}`
-				);
-			}
+			const list = await this.listResources('apps/v1', 'ControllerRevision', namespace, { labelSelector });
+			revisions = list.items.filter(ownedByWorkload).map((controllerRevision: any) => ({
+				revision: Number(controllerRevision.revision),
+				name: controllerRevision.metadata.name,
+				createdAt: controllerRevision.metadata.creationTimestamp,
+				changeCause: controllerRevision.metadata.annotations?.[CHANGE_CAUSE_ANNOTATION],
+				template: controllerRevision.data?.spec?.template,
+				data: controllerRevision.data
+			}));
 		}
+
+		return revisions.sort((a, b) => a.revision - b.revision);
 	}
 
 	async waitForResource(
@@ -1089,6 +2059,7 @@ export class K8SClient {
 			let timeoutId: NodeJS.Timeout;
 			let watchReq: any;
 			let resourceCompleted = false;
+			let latest: any;
 
 			const clearTimeoutIfNeeded = () => {
 				if (timeoutId) {
@@ -1103,59 +2074,18 @@ export class K8SClient {
 					if (watchReq) {
 						watchReq.abort();
 					}
-					reject(new Error(`Timeout waiting for ${kind}/${name} condition: ${condition}`));
+					this.buildTimeoutError(
+						`Timeout waiting for ${kind}/${name} condition: ${condition}`,
+						kind,
+						name,
+						namespace,
+						latest
+					).then(reject);
 				}
 			}, timeout);
 
 			try {
-				// Construct the watch path based on resource type
-				let watchPath: string;
-				if (apiVersion === 'v1') {
-					switch (kind.toLowerCase()) {
-						case 'pod':
-							watchPath = `/api/v1/namespaces/${namespace}/pods`;
-							break;
-						case 'service':
-							watchPath = `/api/v1/namespaces/${namespace}/services`;
-							break;
-						case 'configmap':
-							watchPath = `/api/v1/namespaces/${namespace}/configmaps`;
-							break;
-						case 'secret':
-							watchPath = `/api/v1/namespaces/${namespace}/secrets`;
-							break;
-						default:
-							throw new Error(`Unsupported core resource type: ${kind}`);
-					}
-				} else if (apiVersion === 'apps/v1') {
-					switch (kind.toLowerCase()) {
-						case 'deployment':
-							watchPath = `/apis/apps/v1/namespaces/${namespace}/deployments`;
-							break;
-						case 'replicaset':
-							watchPath = `/apis/apps/v1/namespaces/${namespace}/replicasets`;
-							break;
-						case 'daemonset':
-							watchPath = `/apis/apps/v1/namespaces/${namespace}/daemonsets`;
-							break;
-						case 'statefulset':
-							watchPath = `/apis/apps/v1/namespaces/${namespace}/statefulsets`;
-							break;
-						default:
-							throw new Error(`Unsupported apps resource type: ${kind}`);
-					}
-				} else if (apiVersion === 'batch/v1') {
-					switch (kind.toLowerCase()) {
-						case 'job':
-							watchPath = `/apis/batch/v1/namespaces/${namespace}/jobs`;
-							break;
-						default:
-							throw new Error(`Unsupported batch resource type: ${kind}`);
-					}
-				} else {
-					const [group, version] = apiVersion.split('/');
-					watchPath = `/apis/${group}/${version}/namespaces/${namespace}/${kind.toLowerCase()}s`;
-				}
+				const watchPath = await this.resourceManager.buildWatchPath(apiVersion, kind, namespace);
 
 				watchReq = await watch.watch(
 					watchPath,
@@ -1164,6 +2094,7 @@ export class K8SClient {
 						if (obj.metadata?.name !== name) {
 							return;
 						}
+						latest = obj;
 
 						console.log(`[DEBUG] Resource ${kind}/${name} update:`, {
 							type,
@@ -1174,7 +2105,9 @@ export class K8SClient {
 						// Check condition based on resource type and condition
 						let conditionMet = false;
 
-						if (condition === 'Ready' && kind.toLowerCase() === 'pod') {
+						if (condition === WAIT_CONDITIONS.ROLLED_OUT) {
+							conditionMet = ResourceHelper.getRolloutStatus(obj).done;
+						} else if (condition === 'Ready' && kind.toLowerCase() === 'pod') {
 							const podConditions = obj.status?.conditions || [];
 							const readyCondition = podConditions.find((c: any) => c.type === 'Ready');
 							conditionMet = readyCondition?.status === 'True';
@@ -1286,29 +2219,7 @@ export class K8SClient {
 
 		// If no container name is provided, get the first container from the pod
 		if (!containerName) {
-			try {
-				const k8sCoreApi = this.kubeConfig.makeApiClient(k8s.CoreV1Api);
-				const podResponse = await k8sCoreApi.readNamespacedPod({
-					name: podName,
-					namespace: namespace
-				});
-
-				if (podResponse.spec?.containers && podResponse.spec.containers.length > 0) {
-					containerName = podResponse.spec.containers[0].name;
-					console.log(`[DEBUG] Using first container: ${containerName}`);
-				} else {
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Pod "${podName}" has no containers`
-					);
-				}
-			} catch (error) {
-				console.error(`[DEBUG] Failed to get pod details for ${podName}:`, error);
-				throw new NodeOperationError(
-					this.func.getNode(),
-					`Failed to get pod details for "${podName}": ${error.message}`
-				);
-			}
+			({ containerName } = await this.resolvePodContainer({ podName }, namespace));
 		}
 
 		// Use the unified log retrieval method
@@ -1430,16 +2341,374 @@ export class K8SClient {
 			}
 		}
 
-		const result = {
-			podsFound: podsResponse.items.length,
-			pods: podLogs,
-			totalLogs: allLogs.trim(),
-			labelSelector: labelSelector,
-			namespace: namespace
-		};
+		const result = {
+			podsFound: podsResponse.items.length,
+			pods: podLogs,
+			totalLogs: allLogs.trim(),
+			labelSelector: labelSelector,
+			namespace: namespace
+		};
+
+		console.log(`[DEBUG] Retrieved logs from ${podLogs.length} pods`);
+		return result;
+	}
+
+	/**
+	 * Fetch the last log lines of a failed container, from the crashed instance when it restarted.
+	 * Logs are not always available (e.g. the image was never pulled), so errors yield no logs.
+	 * @returns Log lines, or an empty string
+	 */
+	async getFailureLogs(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		tailLines: number,
+		previous = false
+	): Promise<string> {
+		try {
+			const logs = await this.retrievePodLogs(podName, namespace, containerName, { tailLines, previous });
+			return typeof logs === "string" ? logs : JSON.stringify(logs);
+		} catch (error) {
+			console.log(`[DEBUG] No logs for ${podName}/${containerName}: ${error.message}`);
+			return "";
+		}
+	}
+
+	/**
+	 * Find the most recently created failed pod of a Job
+	 * @param jobName Job name
+	 * @param namespace Namespace
+	 * @returns Pod object, or undefined when none is left
+	 */
+	async getLatestFailedJobPod(jobName: string, namespace: string): Promise<any | undefined> {
+		const list = await this.listResources("v1", "Pod", namespace, { labelSelector: `job-name=${jobName}` });
+		return (list.items || [])
+			.filter((pod: any) => pod.status?.phase === "Failed")
+			.sort((a: any, b: any) =>
+				new Date(b.metadata?.creationTimestamp).getTime() - new Date(a.metadata?.creationTimestamp).getTime()
+			)[0];
+	}
+
+	/**
+	 * Resolve the pod and container an operation runs against. With a label
+	 * selector the first running pod that matches is used, and without a
+	 * container name the first container of the pod.
+	 * @param target Pod name or label selector
+	 * @param namespace Namespace
+	 * @param containerName Container name (optional)
+	 * @returns Resolved pod and container names
+	 */
+	async resolvePodContainer(
+		target: PodTarget,
+		namespace: string,
+		containerName?: string
+	): Promise<{ podName: string; containerName: string }> {
+		const k8sCoreApi = this.kubeConfig.makeApiClient(k8s.CoreV1Api);
+
+		let pod: k8s.V1Pod;
+		if (target.podName) {
+			try {
+				pod = await k8sCoreApi.readNamespacedPod({
+					name: target.podName,
+					namespace: namespace
+				});
+			} catch (error) {
+				console.error(`[DEBUG] Failed to get pod details for ${target.podName}:`, error);
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`Failed to get pod details for "${target.podName}": ${error.message}`
+				);
+			}
+		} else if (target.labelSelector) {
+			let podsResponse: k8s.V1PodList;
+			try {
+				podsResponse = await k8sCoreApi.listNamespacedPod({
+					namespace: namespace,
+					labelSelector: target.labelSelector
+				});
+			} catch (error) {
+				console.error(`[DEBUG] Failed to list pods with label selector ${target.labelSelector}:`, error);
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`Failed to list pods with label selector "${target.labelSelector}" in namespace "${namespace}": ${error.message}`
+				);
+			}
+
+			const runningPod = podsResponse.items.find((item) => item.status?.phase === "Running");
+			if (!runningPod) {
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`No running pod found matching label selector "${target.labelSelector}" in namespace "${namespace}"`
+				);
+			}
+			pod = runningPod;
+		} else {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				"Either a pod name or a label selector is required!"
+			);
+		}
+
+		const podName = pod.metadata!.name!;
+		if (!containerName) {
+			if (!pod.spec?.containers || pod.spec.containers.length === 0) {
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`Pod "${podName}" has no containers`
+				);
+			}
+			containerName = pod.spec.containers[0].name;
+			console.log(`[DEBUG] Using first container: ${containerName}`);
+		}
+
+		return { podName, containerName };
+	}
+
+	/**
+	 * Run a command in a container of a running pod through the exec subresource
+	 * @param podName Pod name
+	 * @param namespace Namespace
+	 * @param containerName Container name
+	 * @param command Command and arguments
+	 * @param stdin Text written to the standard input of the command (optional)
+	 * @param timeout Timeout in milliseconds
+	 * @returns Standard output, standard error and exit code of the command
+	 */
+	async execInPod(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		command: string[],
+		stdin?: string,
+		timeout = 300000
+	): Promise<ExecResult> {
+		console.log(`[DEBUG] execInPod called with:`, {
+			podName,
+			namespace,
+			containerName,
+			command,
+			hasStdin: stdin !== undefined,
+			timeout
+		});
+
+		const result = await this.execStream(
+			podName,
+			namespace,
+			containerName,
+			command,
+			stdin !== undefined ? Readable.from([Buffer.from(stdin)]) : null,
+			timeout
+		);
+
+		return {
+			podName,
+			namespace,
+			container: containerName,
+			command,
+			stdout: result.stdout.toString(),
+			stderr: result.stderr.toString(),
+			exitCode: result.exitCode
+		};
+	}
+
+	/**
+	 * Copy a file or directory out of a pod, like `kubectl cp`
+	 * @param podName Pod name
+	 * @param namespace Namespace
+	 * @param containerName Container name
+	 * @param sourcePath File or directory path in the container
+	 * @param timeout Timeout in milliseconds
+	 * @returns Files relative to the parent directory of the source path
+	 */
+	async downloadFromPod(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		sourcePath: string,
+		timeout = 300000
+	): Promise<ArchiveFile[]> {
+		console.log(`[DEBUG] downloadFromPod called with:`, {
+			podName,
+			namespace,
+			containerName,
+			sourcePath
+		});
+
+		const normalizedPath = path.posix.normalize(sourcePath).replace(/\/+$/, "") || "/";
+		// The root directory has no name of its own, its content is archived instead
+		const [directory, entry] = normalizedPath === "/"
+			? ["/", "."]
+			: [path.posix.dirname(normalizedPath), path.posix.basename(normalizedPath)];
+		const result = await this.execStream(
+			podName,
+			namespace,
+			containerName,
+			["tar", "cf", "-", "-C", directory, entry],
+			null,
+			timeout
+		);
+
+		if (result.exitCode !== 0) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Failed to read "${sourcePath}" from pod "${podName}": ${result.stderr.toString().trim() || `tar exited with code ${result.exitCode}`}`
+			);
+		}
+
+		const files = await ArchiveHelper.extractFiles(result.stdout);
+		console.log(`[DEBUG] Downloaded ${files.length} files from pod ${podName}`);
+		return files;
+	}
+
+	/**
+	 * Copy files into a directory of a pod, like `kubectl cp`. The directory
+	 * is created when it does not exist.
+	 * @param podName Pod name
+	 * @param namespace Namespace
+	 * @param containerName Container name
+	 * @param targetDirectory Directory in the container
+	 * @param files Files to write, relative to the target directory
+	 * @param timeout Timeout in milliseconds
+	 */
+	async uploadToPod(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		targetDirectory: string,
+		files: ArchiveFile[],
+		timeout = 300000
+	): Promise<void> {
+		console.log(`[DEBUG] uploadToPod called with:`, {
+			podName,
+			namespace,
+			containerName,
+			targetDirectory,
+			files: files.map((file) => file.path)
+		});
+
+		// Entry names come from binary file names, which must not escape the target directory or collide
+		const entryPaths = new Set<string>();
+		const entries = files.map((file) => {
+			const entryPath = ArchiveHelper.normalizeEntryPath(file.path);
+			if (!entryPath) {
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`File name "${file.path}" must be a relative path inside the target directory`
+				);
+			}
+			if (entryPaths.has(entryPath)) {
+				throw new NodeOperationError(
+					this.func.getNode(),
+					`More than one file is named "${entryPath}"`
+				);
+			}
+			entryPaths.add(entryPath);
+			return { ...file, path: entryPath };
+		});
+
+		const archive = await ArchiveHelper.packFiles(entries);
+		// The directory is passed as $0 so it never needs shell quoting
+		const result = await this.execStream(
+			podName,
+			namespace,
+			containerName,
+			["sh", "-c", 'mkdir -p "$0" && tar xmf - -C "$0"', targetDirectory],
+			Readable.from([archive]),
+			timeout
+		);
+
+		if (result.exitCode !== 0) {
+			throw new NodeOperationError(
+				this.func.getNode(),
+				`Failed to write files to "${targetDirectory}" in pod "${podName}": ${result.stderr.toString().trim() || `tar exited with code ${result.exitCode}`}`
+			);
+		}
+	}
+
+	// Run a command over the exec subresource and collect its raw output
+	private async execStream(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		command: string[],
+		stdin: Readable | null,
+		timeout: number
+	): Promise<{ stdout: Buffer; stderr: Buffer; exitCode: number }> {
+		const exec = new k8s.Exec(this.kubeConfig);
+		const stdoutChunks: Buffer[] = [];
+		const stderrChunks: Buffer[] = [];
+
+		// Collect synchronously so no output is pending once the status arrives
+		const collect = (chunks: Buffer[]) =>
+			new Writable({
+				write(chunk, _encoding, callback) {
+					chunks.push(Buffer.from(chunk));
+					callback();
+				}
+			});
 
-		console.log(`[DEBUG] Retrieved logs from ${podLogs.length} pods`);
-		return result;
+		return new Promise((resolve, reject) => {
+			const { safeResolve, safeReject } = OutputHelper.createSafePromiseHandlers(resolve, reject);
+			let timer: NodeJS.Timeout | undefined;
+			let completed = false;
+
+			const finish = (status: k8s.V1Status) => {
+				completed = true;
+				clearTimeout(timer);
+				console.log(`[DEBUG] Exec in pod ${podName} finished with status:`, status);
+
+				const exitCode = OutputHelper.getExecExitCode(status);
+				if (exitCode === undefined) {
+					safeReject(new NodeOperationError(
+						this.func.getNode(),
+						`Failed to exec in pod "${podName}": ${status.message || status.reason || "unknown error"}`
+					));
+					return;
+				}
+				safeResolve({
+					stdout: Buffer.concat(stdoutChunks),
+					stderr: Buffer.concat(stderrChunks),
+					exitCode
+				});
+			};
+
+			exec.exec(
+				namespace,
+				podName,
+				containerName,
+				command,
+				collect(stdoutChunks),
+				collect(stderrChunks),
+				stdin,
+				false,
+				finish
+			).then((ws) => {
+				if (completed) {
+					return;
+				}
+				timer = setTimeout(() => {
+					ws.close();
+					safeReject(new NodeOperationError(
+						this.func.getNode(),
+						`Command in pod "${podName}" did not finish within ${timeout / 1000} seconds`
+					));
+				}, timeout);
+
+				ws.on("close", () => {
+					clearTimeout(timer);
+					safeReject(new NodeOperationError(
+						this.func.getNode(),
+						`Connection to pod "${podName}" closed before the command finished`
+					));
+				});
+			}).catch((error) => {
+				console.error(`[DEBUG] Exec in pod ${podName} failed:`, error);
+				safeReject(new NodeOperationError(
+					this.func.getNode(),
+					`Failed to exec in pod "${podName}" in namespace "${namespace}": ${error.message}`
+				));
+			});
+		});
 	}
 
 	// Helper method to format output - try JSON parse first, fallback to raw string
@@ -1466,6 +2735,163 @@ export class K8SClient {
 		}
 	}
 
+	/**
+	 * List core events, oldest first, optionally only those of one object or type
+	 * @param namespace Namespace
+	 * @param options Filters
+	 * @returns Event summaries
+	 */
+	async getEvents(namespace: string, options: EventOptions = {}): Promise<IDataObject[]> {
+		console.log(`[DEBUG] getEvents called with:`, { namespace, options });
+
+		let since: number | undefined;
+		if (options.sinceTime) {
+			this.validateTimeFormat(options.sinceTime);
+			since = new Date(options.sinceTime).getTime();
+		}
+
+		const fieldSelector = [
+			options.involvedKind && `involvedObject.kind=${options.involvedKind}`,
+			options.involvedName && `involvedObject.name=${options.involvedName}`,
+			options.involvedUid && `involvedObject.uid=${options.involvedUid}`,
+			options.type && `type=${options.type}`
+		].filter(Boolean).join(",");
+
+		const list = await this.listResources("v1", "Event", namespace, {
+			fieldSelector,
+			allNamespaces: options.allNamespaces
+		});
+
+		const time = (event: IDataObject) => new Date(event.lastTimestamp as string).getTime() || 0;
+		return (list.items || [])
+			.map((event: any) => ResourceHelper.summarizeEvent(event))
+			.filter((event: IDataObject) => since === undefined || time(event) >= since)
+			.sort((a: IDataObject, b: IDataObject) => time(a) - time(b));
+	}
+
+	/**
+	 * Collect what `kubectl describe` shows: the object, a summary of its conditions,
+	 * its events and, for workloads and Services, the pods it selects
+	 * @returns Description of the resource
+	 */
+	async describeResource(
+		apiVersion: string,
+		kind: string,
+		name: string,
+		namespace: string
+	): Promise<IDataObject> {
+		console.log(`[DEBUG] describeResource called with:`, { apiVersion, kind, name, namespace });
+
+		const resource = await this.resourceManager.resolveResource(apiVersion, kind);
+		const object = await this.getResource(apiVersion, kind, name, namespace);
+
+		// Events of cluster-scoped objects are recorded in the default namespace
+		const events = await this.getEvents(namespace, {
+			involvedUid: object.metadata?.uid,
+			allNamespaces: !resource.namespaced
+		});
+
+		let labelSelector = "";
+		if (resource.kind === "Service") {
+			labelSelector = Object.entries(object.spec?.selector || {})
+				.map(([key, value]) => `${key}=${value}`)
+				.join(",");
+		} else if (object.spec?.selector?.matchLabels || object.spec?.selector?.matchExpressions) {
+			labelSelector = ResourceHelper.formatLabelSelector(object.spec.selector);
+		}
+
+		let pods: IDataObject[] | undefined;
+		if (resource.namespaced && labelSelector) {
+			const list = await this.listResources("v1", "Pod", namespace, { labelSelector });
+			pods = (list.items || []).map((pod: any) => ResourceHelper.summarizePod(pod));
+		}
+
+		return {
+			object,
+			conditions: ResourceHelper.summarizeConditions(object),
+			...(pods ? { pods } : {}),
+			events
+		};
+	}
+
+	/**
+	 * Build the error of a wait that timed out. Recent Warning events of the object and of
+	 * the objects it owns (the ReplicaSets and pods of a workload) explain most timeouts.
+	 * @param object Last seen state of the object, without it only its own events are read
+	 */
+	private async buildTimeoutError(
+		message: string,
+		kind: string,
+		name: string,
+		namespace: string,
+		object?: any
+	): Promise<NodeOperationError> {
+		let warnings: IDataObject[] = [];
+		try {
+			const ownedUids = object ? await this.getOwnedObjectUids(kind, object, namespace) : [];
+			const lists = await Promise.all([
+				this.getEvents(namespace, { involvedKind: kind, involvedName: name, type: "Warning" }),
+				...ownedUids.map((uid) => this.getEvents(namespace, { involvedUid: uid, type: "Warning" }))
+			]);
+			const time = (event: IDataObject) => new Date(event.lastTimestamp as string).getTime() || 0;
+			warnings = lists
+				.flat()
+				.sort((a, b) => time(a) - time(b))
+				.slice(-TIMEOUT_WARNING_EVENTS);
+		} catch (error) {
+			console.log(`[DEBUG] Could not read events for ${kind}/${name}: ${error.message}`);
+		}
+
+		const latest: any = warnings[warnings.length - 1];
+		const error = new NodeOperationError(
+			this.func.getNode(),
+			latest ? `${message}. Last warning: ${latest.reason}: ${latest.message}` : message,
+			{
+				description: warnings
+					.map((event: any) =>
+						`${event.lastTimestamp} ${event.involvedObject.kind}/${event.involvedObject.name} ${event.reason}: ${event.message}${event.count > 1 ? ` (x${event.count})` : ""}`
+					)
+					.join("\n") || undefined,
+			}
+		);
+		error.context.warningEvents = warnings;
+		return error;
+	}
+
+	/**
+	 * Find the objects a workload owns: the pods it selects and, for a Deployment, its
+	 * ReplicaSets. Only objects whose owner references lead to the workload count.
+	 * @returns UIDs of the newest owned objects
+	 */
+	private async getOwnedObjectUids(kind: string, object: any, namespace: string): Promise<string[]> {
+		const selector = object.spec?.selector;
+		if (!object.metadata?.uid || !(selector?.matchLabels || selector?.matchExpressions)) {
+			return [];
+		}
+		const labelSelector = ResourceHelper.formatLabelSelector(selector);
+		const ownedBy = (child: any, owners: Set<string>) =>
+			(child.metadata?.ownerReferences || []).some((owner: any) => owners.has(owner.uid));
+
+		const owners = new Set<string>([object.metadata.uid]);
+		const owned: any[] = [];
+		if (kind === "Deployment") {
+			const replicaSets = await this.listResources("apps/v1", "ReplicaSet", namespace, { labelSelector });
+			for (const replicaSet of (replicaSets.items || []).filter((item: any) => ownedBy(item, owners))) {
+				owned.push(replicaSet);
+				owners.add(replicaSet.metadata.uid);
+			}
+		}
+		const pods = await this.listResources("v1", "Pod", namespace, { labelSelector });
+		owned.push(...(pods.items || []).filter((pod: any) => ownedBy(pod, owners)));
+
+		return owned
+			.sort((a, b) =>
+				String(b.metadata?.creationTimestamp).localeCompare(String(a.metadata?.creationTimestamp))
+			)
+			.slice(0, TIMEOUT_WARNING_EVENTS)
+			.map((child) => child.metadata.uid);
+	}
+
 	// Helper to check if error is an expected abort error
 	private isExpectedAbortError(err: any, completed: boolean): boolean {
 		return OutputHelper.isExpectedAbortError(err, completed);
@@ -1526,6 +2952,9 @@ export class K8SClient {
 			if (options.follow) {
 				logOptions.follow = options.follow;
 			}
+			if (options.previous) {
+				logOptions.previous = true;
+			}
 			if (options.sinceTime) {
 				try {
 					this.validateTimeFormat(options.sinceTime);
@@ -1851,7 +3280,7 @@ export class K8SClient {
 				}
 			}
 
-			const result = {
+			const result: JobResult = {
 				jobName: finalJobName,
 				namespace: namespace,
 				cronJobName: cronJobName,
@@ -1892,7 +3321,8 @@ export class K8SClient {
 	private async waitForJobCompletion(
 		jobName: string,
 		namespace: string,
-		timeout: number = 300000
+		timeout: number = JOB_TIMEOUT_MS,
+		signal?: AbortSignal
 	): Promise<{ status: string; jobStatus: any }> {
 		const watch = new k8s.Watch(this.kubeConfig);
 
@@ -1908,8 +3338,20 @@ export class K8SClient {
 				}
 			};
 
+			// Stop waiting when the caller gives up on the Job, e.g. when its input cannot be written
+			let jobWatchReq: AbortController | undefined;
+			signal?.addEventListener(
+				"abort",
+				() => {
+					clearTimeoutIfNeeded();
+					jobWatchReq?.abort();
+					reject(signal.reason);
+				},
+				{ once: true }
+			);
+
 			// Watch job status
-			const jobWatchReq = await watch.watch(
+			jobWatchReq = await watch.watch(
 				`/apis/batch/v1/namespaces/${namespace}/jobs`,
 				{},
 				async (type, obj: k8s.V1Job) => {
@@ -1925,12 +3367,17 @@ export class K8SClient {
 						conditions: obj.status?.conditions
 					});
 
+					// A failed pod does not end a Job that still has retries or other completions left,
+					// only its Complete or Failed condition does
 					const jobStatus = obj.status;
-					if (jobStatus?.succeeded || jobStatus?.failed) {
+					const finished = jobStatus?.conditions?.find(
+						(condition) => ["Complete", "Failed"].includes(condition.type) && condition.status === "True"
+					);
+					if (finished) {
 						jobCompleted = true;
 						clearTimeoutIfNeeded();
 
-						const status = jobStatus.succeeded ? "succeeded" : "failed";
+						const status = finished.type === "Complete" ? "succeeded" : "failed";
 						console.log(`[DEBUG] Job ${jobName} completed with status: ${status}`);
 
 						// Abort the watch after resolving to avoid race conditions
@@ -1943,7 +3390,7 @@ export class K8SClient {
 				},
 				(err) => {
 					// Don't treat AbortError as a real error if the job has already completed
-					if (this.isExpectedAbortError(err, jobCompleted)) {
+					if (this.isExpectedAbortError(err, jobCompleted || !!signal?.aborted)) {
 						console.log(`[DEBUG] Job watch aborted for ${jobName} after completion (expected)`);
 						return;
 					}
@@ -1952,6 +3399,10 @@ export class K8SClient {
 					reject(err);
 				}
 			);
+			if (signal?.aborted) {
+				jobWatchReq.abort();
+				return;
+			}
 
 			// Set a timeout to avoid waiting indefinitely
 			timeoutId = setTimeout(() => {
@@ -1964,6 +3415,161 @@ export class K8SClient {
 		});
 	}
 
+	/**
+	 * Read the termination and, when asked for, the output of every pod of a Job, including retries
+	 * @param jobName Job name
+	 * @param namespace Namespace
+	 * @param containerName Container name
+	 * @param readOutput Whether to read the logs of every pod
+	 * @returns Results ordered by creation, logs that cannot be read are reported per pod
+	 */
+	private async getJobPodResults(
+		jobName: string,
+		namespace: string,
+		containerName: string,
+		readOutput: boolean
+	): Promise<JobPodResult[]> {
+		const list = await this.listResources("v1", "Pod", namespace, { labelSelector: `job-name=${jobName}` });
+		const pods: any[] = (list.items || []).sort((a: any, b: any) =>
+			String(a.metadata?.creationTimestamp).localeCompare(String(b.metadata?.creationTimestamp))
+		);
+		console.log(`[DEBUG] Found ${pods.length} pods for job ${jobName}`);
+
+		// Attempts are counted per completion index, or over the whole Job when it is not indexed
+		const attempts = new Map<string, number>();
+		const results: JobPodResult[] = [];
+		for (const pod of pods) {
+			const annotation = pod.metadata?.annotations?.[JOB_COMPLETION_INDEX_ANNOTATION];
+			const index = annotation === undefined ? undefined : Number(annotation);
+			const attempt = (attempts.get(String(index)) ?? 0) + 1;
+			attempts.set(String(index), attempt);
+
+			const result: JobPodResult = {
+				podName: pod.metadata.name,
+				...(index !== undefined && { index }),
+				attempt,
+				phase: pod.status?.phase,
+				logs: "",
+				...ResourceHelper.getContainerTermination(pod, containerName),
+			};
+			if (readOutput) {
+				await this.readJobPodOutput(result, namespace, containerName);
+			}
+			results.push(result);
+		}
+		return results;
+	}
+
+	// Read the logs of one pod of a Job into its result, or why they cannot be read
+	private async readJobPodOutput(result: JobPodResult, namespace: string, containerName: string): Promise<void> {
+		try {
+			const { stdout, stderr } = await this.retrieveContainerOutput(result.podName, namespace, containerName);
+			result.logs = stdout;
+			if (stderr !== undefined) {
+				result.stderr = stderr;
+			}
+		} catch (error) {
+			console.error(`[DEBUG] Failed to get logs for pod ${result.podName}:`, error);
+			result.logsError = error.message;
+		}
+	}
+
+	/**
+	 * Pick the pod the output of a Job comes from: the latest one, a succeeded one if the Job succeeded
+	 * @param podResults Results of all pods, ordered by creation
+	 * @param succeeded Whether the Job succeeded
+	 * @returns The pod, undefined when the Job has no pods
+	 */
+	private selectJobPod(podResults: JobPodResult[], succeeded: boolean): JobPodResult | undefined {
+		const latestFirst = [...podResults].reverse();
+		return (succeeded && latestFirst.find((pod) => pod.phase === "Succeeded")) || latestFirst[0];
+	}
+
+	/**
+	 * Pick the pod of each completion index of an Indexed Job, its succeeded one or else its latest one
+	 * @param podResults Results of all pods, ordered by creation
+	 * @returns Pods ordered by completion index
+	 */
+	private selectJobIndexPods(podResults: JobPodResult[]): JobPodResult[] {
+		const podsByIndex = new Map<number, JobPodResult>();
+		for (const pod of podResults) {
+			if (podsByIndex.get(pod.index!)?.phase !== "Succeeded") {
+				podsByIndex.set(pod.index!, pod);
+			}
+		}
+		return [...podsByIndex].sort(([a], [b]) => a - b).map(([, pod]) => pod);
+	}
+
+	// Concatenate the logs of all pods of a Job, like getLogsByLabelSelector does
+	private combineJobPodLogs(podResults: JobPodResult[]): string {
+		return podResults
+			.map((pod) => {
+				const logs = pod.logsError
+					? `Error getting logs: ${pod.logsError}`
+					: typeof pod.logs === "string" ? pod.logs : JSON.stringify(pod.logs);
+				return `=== Pod: ${pod.podName} (attempt ${pod.attempt}) ===\n${logs}\n=== End of ${pod.podName} logs ===`;
+			})
+			.join("\n");
+	}
+
+	/**
+	 * Read the output of a finished container, stdout and stderr separately when the
+	 * cluster supports it and otherwise the whole log as stdout. Separate streams need the
+	 * PodLogsQuerySplitStreams feature of Kubernetes 1.32+, without it the API server returns
+	 * the whole log for each stream. The first container with a log tells whether the cluster
+	 * supports it, later calls rely on that.
+	 */
+	private async retrieveContainerOutput(
+		podName: string,
+		namespace: string,
+		containerName: string
+	): Promise<{ stdout: any; stderr?: string }> {
+		if (this.splitLogStreams !== false) {
+			try {
+				const [stdout, stderr] = await Promise.all(
+					["Stdout", "Stderr"].map((stream) => this.readContainerLog(podName, namespace, containerName, stream))
+				);
+				if (this.splitLogStreams) {
+					return { stdout: this.formatOutput(stdout), stderr };
+				}
+
+				// Separated streams add up to the interleaved log, ignored stream parameters do not.
+				// An empty or truncated log does not tell.
+				const all = await this.readContainerLog(podName, namespace, containerName, "All");
+				if (all && Buffer.byteLength(all) < CONTAINER_LOG_LIMIT_BYTES) {
+					this.splitLogStreams = stdout.length + stderr.length === all.length;
+					console.log(`[DEBUG] Cluster ${this.splitLogStreams ? "separates" : "does not separate"} log streams`);
+					if (this.splitLogStreams) {
+						return { stdout: this.formatOutput(stdout), stderr };
+					}
+				}
+				return { stdout: this.formatOutput(all) };
+			} catch (error) {
+				console.log(`[DEBUG] Failed to read separate log streams of pod ${podName}: ${error.message}`);
+			}
+		}
+		return { stdout: this.formatOutput(await this.readContainerLog(podName, namespace, containerName, "All")) };
+	}
+
+	// Read one log stream of a container, up to the container output limit
+	private async readContainerLog(
+		podName: string,
+		namespace: string,
+		containerName: string,
+		stream: string
+	): Promise<string> {
+		const k8sCoreApi = this.kubeConfig.makeApiClient(k8s.CoreV1Api);
+		return (
+			(await k8sCoreApi.readNamespacedPodLog({
+				name: podName,
+				namespace,
+				container: containerName,
+				stream,
+				limitBytes: CONTAINER_LOG_LIMIT_BYTES,
+			})) ?? ""
+		);
+	}
+
 		// Helper method to get logs from job pods
 	private async getJobPodLogs(
 		jobName: string,
@@ -2035,8 +3641,6 @@ export class K8SClient {
 		namespace: string,
 		resourceData: any
 	): Promise<any> {
-		const kc = this.kubeConfig;
-
 		console.log(`[DEBUG] createResource called with:`, {
 			apiVersion,
 			kind,
@@ -2072,299 +3676,93 @@ export class K8SClient {
 			cleanedResourceData: JSON.stringify(cleanedResourceData, null, 2)
 		});
 
-		// Handle core resources
-		if (apiVersion === 'v1') {
-			const coreApi = kc.makeApiClient(k8s.CoreV1Api);
-			console.log(`[DEBUG] Using CoreV1Api for ${kind}`);
+		console.log(`[DEBUG] Creating ${kind} ${name} in namespace ${namespace}`);
+		const createdResource = await this.resourceManager.performResourceOperation(
+			'create',
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			cleanedResourceData
+		);
+		console.log(`[DEBUG] ${kind} created successfully`);
+		return createdResource;
+	}
 
-			switch (kind.toLowerCase()) {
-				case 'pod':
-					try {
-						console.log(`[DEBUG] Creating pod ${name} in namespace ${namespace}`);
-						const createdPod = await coreApi.createNamespacedPod({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Pod created successfully:`, createdPod);
-						return createdPod;
-					} catch (error) {
-						console.error(`[DEBUG] Pod creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create pod "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'service':
-					try {
-						console.log(`[DEBUG] Creating service ${name} in namespace ${namespace}`);
-						const createdService = await coreApi.createNamespacedService({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Service created successfully:`, createdService);
-						return createdService;
-					} catch (error) {
-						console.error(`[DEBUG] Service creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create service "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'configmap':
-					try {
-						console.log(`[DEBUG] Creating configmap ${name} in namespace ${namespace}`);
-						const createdConfigMap = await coreApi.createNamespacedConfigMap({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] ConfigMap created successfully:`, createdConfigMap);
-						return createdConfigMap;
-					} catch (error) {
-						console.error(`[DEBUG] ConfigMap creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create configmap "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'secret':
-					try {
-						console.log(`[DEBUG] Creating secret ${name} in namespace ${namespace}`);
-						const createdSecret = await coreApi.createNamespacedSecret({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Secret created successfully:`, createdSecret);
-						return createdSecret;
-					} catch (error) {
-						console.error(`[DEBUG] Secret creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create secret "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'persistentvolumeclaim':
-					try {
-						console.log(`[DEBUG] Creating persistentvolumeclaim ${name} in namespace ${namespace}`);
-						const createdPvc = await coreApi.createNamespacedPersistentVolumeClaim({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] PersistentVolumeClaim created successfully:`, createdPvc);
-						return createdPvc;
-					} catch (error) {
-						console.error(`[DEBUG] PersistentVolumeClaim creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create persistentvolumeclaim "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'namespace':
-					try {
-						console.log(`[DEBUG] Creating namespace ${name}`);
-						const createdNamespace = await coreApi.createNamespace({
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Namespace created successfully:`, createdNamespace);
-						return createdNamespace;
-					} catch (error) {
-						console.error(`[DEBUG] Namespace creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create namespace "${name}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported core resource type: ${kind}`
-					);
-			}
-		} else if (apiVersion === 'apps/v1') {
-			const appsApi = kc.makeApiClient(k8s.AppsV1Api);
-			console.log(`[DEBUG] Using AppsV1Api for ${kind}`);
+	async applyResource(
+		resourceData: any,
+		fieldManager = "n8n",
+		forceConflicts = false
+	): Promise<any> {
+		const apiVersion = resourceData.apiVersion;
+		const kind = resourceData.kind;
+		const name = resourceData.metadata?.name;
+		const namespace = resourceData.metadata?.namespace;
 
-			switch (kind.toLowerCase()) {
-				case 'deployment':
-					try {
-						console.log(`[DEBUG] Creating deployment ${name} in namespace ${namespace}`);
-						const createdDeployment = await appsApi.createNamespacedDeployment({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Deployment created successfully:`, createdDeployment);
-						return createdDeployment;
-					} catch (error) {
-						console.error(`[DEBUG] Deployment creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create deployment "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'replicaset':
-					try {
-						console.log(`[DEBUG] Creating replicaset ${name} in namespace ${namespace}`);
-						const createdReplicaSet = await appsApi.createNamespacedReplicaSet({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] ReplicaSet created successfully:`, createdReplicaSet);
-						return createdReplicaSet;
-					} catch (error) {
-						console.error(`[DEBUG] ReplicaSet creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create replicaset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'daemonset':
-					try {
-						console.log(`[DEBUG] Creating daemonset ${name} in namespace ${namespace}`);
-						const createdDaemonSet = await appsApi.createNamespacedDaemonSet({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] DaemonSet created successfully:`, createdDaemonSet);
-						return createdDaemonSet;
-					} catch (error) {
-						console.error(`[DEBUG] DaemonSet creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create daemonset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'statefulset':
-					try {
-						console.log(`[DEBUG] Creating statefulset ${name} in namespace ${namespace}`);
-						const createdStatefulSet = await appsApi.createNamespacedStatefulSet({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] StatefulSet created successfully:`, createdStatefulSet);
-						return createdStatefulSet;
-					} catch (error) {
-						console.error(`[DEBUG] StatefulSet creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create statefulset "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported apps resource type: ${kind}`
-					);
-			}
-		} else if (apiVersion === 'batch/v1') {
-			const batchApi = kc.makeApiClient(k8s.BatchV1Api);
-			console.log(`[DEBUG] Using BatchV1Api for ${kind}`);
+		console.log(`[DEBUG] applyResource called with:`, {
+			apiVersion,
+			kind,
+			name,
+			namespace,
+			fieldManager,
+			forceConflicts
+		});
 
-			switch (kind.toLowerCase()) {
-				case 'job':
-					try {
-						console.log(`[DEBUG] Creating job ${name} in namespace ${namespace}`);
-						const createdJob = await batchApi.createNamespacedJob({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Job created successfully:`, createdJob);
-						return createdJob;
-					} catch (error) {
-						console.error(`[DEBUG] Job creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create job "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'cronjob':
-					try {
-						console.log(`[DEBUG] Creating cronjob ${name} in namespace ${namespace}`);
-						const createdCronJob = await batchApi.createNamespacedCronJob({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] CronJob created successfully:`, createdCronJob);
-						return createdCronJob;
-					} catch (error) {
-						console.error(`[DEBUG] CronJob creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create cronjob "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported batch resource type: ${kind}`
-					);
-			}
-		} else if (apiVersion === 'networking.k8s.io/v1') {
-			const networkingApi = kc.makeApiClient(k8s.NetworkingV1Api);
-			console.log(`[DEBUG] Using NetworkingV1Api for ${kind}`);
+		// Clean up the resource data and add the managed-by-automation label
+		const cleanedResourceData = ResourceHelper.addManagedLabels(
+			this.cleanResourceData(resourceData)
+		);
 
-			switch (kind.toLowerCase()) {
-				case 'ingress':
-					try {
-						console.log(`[DEBUG] Creating ingress ${name} in namespace ${namespace}`);
-						const createdIngress = await networkingApi.createNamespacedIngress({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] Ingress created successfully:`, createdIngress);
-						return createdIngress;
-					} catch (error) {
-						console.error(`[DEBUG] Ingress creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create ingress "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				case 'networkpolicy':
-					try {
-						console.log(`[DEBUG] Creating networkpolicy ${name} in namespace ${namespace}`);
-						const createdNetworkPolicy = await networkingApi.createNamespacedNetworkPolicy({
-							namespace: namespace,
-							body: cleanedResourceData
-						});
-						console.log(`[DEBUG] NetworkPolicy created successfully:`, createdNetworkPolicy);
-						return createdNetworkPolicy;
-					} catch (error) {
-						console.error(`[DEBUG] NetworkPolicy creation failed:`, error);
-						throw new NodeOperationError(
-							this.func.getNode(),
-							`Failed to create networkpolicy "${name}" in namespace "${namespace}": ${error.message}`
-						);
-					}
-				default:
-					throw new NodeOperationError(
-						this.func.getNode(),
-						`Unsupported networking resource type: ${kind}`
-					);
-			}
-		} else {
-			// Handle custom resources
-			try {
-				console.log(`[DEBUG] Using CustomObjectsApi for ${apiVersion}/${kind}`);
-				const customObjectsApi = kc.makeApiClient(k8s.CustomObjectsApi);
-				const [group, version] = apiVersion.split('/');
-				console.log(`[DEBUG] Creating custom resource ${name} in namespace ${namespace} (group: ${group}, version: ${version})`);
-
-				const response = await customObjectsApi.createNamespacedCustomObject({
-					group: group,
-					version: version,
-					namespace: namespace,
-					plural: kind.toLowerCase() + 's', // Pluralize the kind
-					body: cleanedResourceData
-				});
-				console.log(`[DEBUG] Custom resource created successfully`);
-				return response.body;
-			} catch (error) {
-				console.error(`[DEBUG] Custom resource creation failed:`, error);
+		// Read the current object so we can tell whether the apply changed anything
+		const existing = await this.resourceManager.readResourceIfExists(
+			apiVersion,
+			kind,
+			name,
+			namespace
+		);
+		const existingResourceVersion: string | undefined = existing?.metadata?.resourceVersion;
+
+		let appliedResource: any;
+		try {
+			console.log(`[DEBUG] Applying ${kind} ${name} with field manager ${fieldManager}`);
+			appliedResource = await this.resourceManager.performResourceOperation(
+				'patch',
+				apiVersion,
+				kind,
+				name,
+				namespace,
+				cleanedResourceData,
+				{
+					fieldManager,
+					force: forceConflicts,
+					patchStrategy: k8s.PatchStrategy.ServerSideApply
+				}
+			);
+		} catch (error) {
+			if (error.context?.statusCode === 409) {
 				throw new NodeOperationError(
 					this.func.getNode(),
-					`Failed to create custom resource "${name}" in namespace "${namespace}": ${error.message}`
+					`${error.message}. Enable 'Force Conflicts' to take ownership of the conflicting fields.`
 				);
 			}
+			throw error;
+		}
+
+		let result: string;
+		if (existingResourceVersion === undefined) {
+			result = "created";
+		} else if (appliedResource.metadata?.resourceVersion === existingResourceVersion) {
+			result = "unchanged";
+		} else {
+			result = "changed";
 		}
+
+		console.log(`[DEBUG] ${kind} ${name} applied successfully: ${result}`);
+		return {
+			resource: appliedResource,
+			result,
+			fieldManager
+		};
 	}
 
 	// Helper method to clean resource data by removing runtime fields